@@ -5,16 +5,23 @@ import { Input } from '@/components/ui/input';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { LoadingSpinner } from '@/components/ui/loading-spinner';
 import { useToast } from '@/hooks/use-toast';
-import { MessageCircle, Send, Plus, Trash2, ExternalLink } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { MessageCircle, Send, Plus, Trash2, ExternalLink, SlidersHorizontal } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/hooks/useAuth';
 import { cn } from '@/lib/utils';
+import { readServerSentEvents } from '@/lib/sse';
+import { getFunctionErrorMessage } from '@/lib/function-errors';
+import type { ChatSource } from '@shared/chat-sources';
+import { SourcePreviewDrawer } from './SourcePreviewDrawer';
+import type { DocumentStatus } from '@shared/document-status';
+import { ConversationScopeDialog, type ScopeDocument } from './ConversationScopeDialog';
 
 interface Message {
   id: string;
   role: 'user' | 'assistant';
   content: string;
-  sources?: any[];
+  sources?: ChatSource[] | null;
   created_at: string;
 }
 
@@ -25,6 +32,18 @@ interface Conversation {
   updated_at: string;
 }
 
+// An empty scope searches all of the user's documents
+const ALL_DOCUMENTS: string[] = [];
+
+type ChatDocument = ScopeDocument & { status: DocumentStatus };
+
+// Shown on scope chips for documents that are not searchable right now
+const UNSEARCHABLE_STATUS_LABELS: Partial<Record<DocumentStatus, string>> = {
+  uploading: 'Uploading',
+  processing: 'Processing',
+  error: 'Error'
+};
+
 interface ChatInterfaceProps {
   documentsRefreshTrigger?: number;
 }
@@ -37,22 +56,31 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({ documentsRefreshTr
   const [loading, setLoading] = useState(false);
   const [conversationsLoading, setConversationsLoading] = useState(true);
   const [hasDocuments, setHasDocuments] = useState(false);
+  const [documents, setDocuments] = useState<ChatDocument[]>([]);
+  // Documents the active conversation is limited to; empty means all documents
+  const [scopeDocumentIds, setScopeDocumentIds] = useState<string[]>([]);
+  const [scopeDialog, setScopeDialog] = useState<'create' | 'edit' | null>(null);
+  const [streamingMessageId, setStreamingMessageId] = useState<string | null>(null);
+  // Source highlighted after clicking a citation, as `${messageId}-${index}`
+  const [activeSourceKey, setActiveSourceKey] = useState<string | null>(null);
+  const [previewSource, setPreviewSource] = useState<ChatSource | null>(null);
   const scrollAreaRef = useRef<HTMLDivElement>(null);
   const { user } = useAuth();
   const { toast } = useToast();
 
-  // Check if user has processed documents
+  // Load the user's documents; only processed ones can be chatted with or added to a scope
   const checkForDocuments = async () => {
     if (!user) return;
     try {
       const { data } = await supabase
         .from('documents')
-        .select('id')
+        .select('id, name, status')
         .eq('user_id', user.id)
-        .eq('status', 'completed')
-        .limit(1);
+        .order('name');
       
-      setHasDocuments((data?.length || 0) > 0);
+      const loaded = (data || []) as ChatDocument[];
+      setDocuments(loaded);
+      setHasDocuments(loaded.some(document => document.status === 'completed'));
     } catch (error) {
       console.error('Error checking documents:', error);
     }
@@ -88,12 +116,27 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({ documentsRefreshTr
         .order('created_at', { ascending: true });
 
       if (error) throw error;
-      setMessages((data || []) as Message[]);
+      // sources is a jsonb column holding ChatSource[]
+      setMessages((data || []) as unknown as Message[]);
     } catch (error: any) {
       console.error('Error fetching messages:', error);
     }
   };
 
+  const fetchConversationScope = async (conversationId: string) => {
+    const { data, error } = await supabase
+      .from('conversation_documents')
+      .select('document_id')
+      .eq('conversation_id', conversationId);
+
+    if (error) {
+      console.error('Error fetching conversation documents:', error);
+      return;
+    }
+
+    setScopeDocumentIds((data || []).map(row => row.document_id));
+  };
+
   useEffect(() => {
     if (user) {
       checkForDocuments();
@@ -104,8 +147,10 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({ documentsRefreshTr
   useEffect(() => {
     if (activeConversation) {
       fetchMessages(activeConversation);
+      fetchConversationScope(activeConversation);
     } else {
       setMessages([]);
+      setScopeDocumentIds([]);
     }
   }, [activeConversation]);
 
@@ -116,8 +161,8 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({ documentsRefreshTr
     }
   }, [messages]);
 
-  const createNewConversation = async () => {
-    if (!user) return;
+  const createNewConversation = async (documentIds: string[]) => {
+    if (!user) return false;
 
     try {
       const { data, error } = await supabase
@@ -130,16 +175,67 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({ documentsRefreshTr
         .single();
 
       if (error) throw error;
+
+      if (documentIds.length > 0) {
+        const { error: scopeError } = await supabase
+          .from('conversation_documents')
+          .insert(documentIds.map(documentId => ({
+            conversation_id: data.id,
+            document_id: documentId,
+            user_id: user.id
+          })));
+
+        if (scopeError) throw scopeError;
+      }
       
       setConversations(prev => [data, ...prev]);
       setActiveConversation(data.id);
-    } catch (error: any) {
+      return true;
+    } catch (error) {
       console.error('Error creating conversation:', error);
       toast({
         title: "Error creating conversation",
-        description: error.message,
+        description: error instanceof Error ? error.message : 'Failed to create the conversation',
+        variant: "destructive"
+      });
+      return false;
+    }
+  };
+
+  // Replace the documents the active conversation searches
+  const updateConversationScope = async (documentIds: string[]) => {
+    if (!user || !activeConversation) return false;
+
+    try {
+      const { error: deleteError } = await supabase
+        .from('conversation_documents')
+        .delete()
+        .eq('conversation_id', activeConversation);
+
+      if (deleteError) throw deleteError;
+
+      if (documentIds.length > 0) {
+        const { error: insertError } = await supabase
+          .from('conversation_documents')
+          .insert(documentIds.map(documentId => ({
+            conversation_id: activeConversation,
+            document_id: documentId,
+            user_id: user.id
+          })));
+
+        if (insertError) throw insertError;
+      }
+
+      setScopeDocumentIds(documentIds);
+      return true;
+    } catch (error) {
+      console.error('Error updating conversation documents:', error);
+      toast({
+        title: "Error updating documents",
+        description: error instanceof Error ? error.message : 'Failed to update the conversation documents',
         variant: "destructive"
       });
+      return false;
     }
   };
 
@@ -186,62 +282,81 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({ documentsRefreshTr
     setInputMessage('');
     setLoading(true);
 
+    const tempUserMessageId = `temp-${Date.now()}`;
+    const streamingId = `streaming-${Date.now()}`;
+
     try {
       // Add user message to local state immediately
       const tempUserMessage: Message = {
-        id: `temp-${Date.now()}`,
+        id: tempUserMessageId,
         role: 'user',
         content: userMessage,
         created_at: new Date().toISOString()
       };
       setMessages(prev => [...prev, tempUserMessage]);
 
-      // Save user message to database
-      const { data: userMsgData, error: userMsgError } = await supabase
-        .from('messages')
-        .insert({
-          conversation_id: activeConversation,
-          user_id: user.id,
-          role: 'user',
-          content: userMessage
-        })
-        .select()
-        .single();
-
-      if (userMsgError) throw userMsgError;
-
-      // Replace temp message with real one
-      setMessages(prev => prev.map(msg => 
-        msg.id === tempUserMessage.id ? userMsgData as Message : msg
-      ));
-
-      // Get AI response
+      // Get AI response as a stream of tokens; the function stores both turns
       const { data: aiResponse, error: aiError } = await supabase.functions.invoke('chat-with-documents', {
         body: { 
           message: userMessage,
           sessionId: activeConversation,
-          userId: user.id
+          stream: true
         }
       });
 
       if (aiError) throw aiError;
 
-      // Add AI response to messages
-      const { data: aiMsgData, error: aiMsgError } = await supabase
-        .from('messages')
-        .insert({
-          conversation_id: activeConversation,
-          user_id: user.id,
-          role: 'assistant',
-          content: aiResponse.response,
-          sources: aiResponse.sources || null
-        })
-        .select()
-        .single();
+      let responseContent = '';
+      let savedMessages: { user: Message; assistant: Message } | undefined;
+      // Set when generation failed after part of the answer had been streamed and stored
+      let interruptedError: string | undefined;
+
+      if (aiResponse instanceof Response) {
+        for await (const { event, data } of readServerSentEvents(aiResponse)) {
+          const payload = JSON.parse(data);
+
+          if (event === 'token') {
+            const isFirstToken = responseContent === '';
+            responseContent += payload.text;
+            const content = responseContent;
+
+            // Grow the assistant bubble in place as tokens arrive
+            if (isFirstToken) {
+              setStreamingMessageId(streamingId);
+              setMessages(prev => [...prev, {
+                id: streamingId,
+                role: 'assistant',
+                content,
+                created_at: new Date().toISOString()
+              }]);
+            } else {
+              setMessages(prev => prev.map(msg => 
+                msg.id === streamingId ? { ...msg, content } : msg
+              ));
+            }
+          } else if (event === 'done') {
+            savedMessages = payload.messages;
+          } else if (event === 'error') {
+            const errorMessage = payload.error?.message || 'An unexpected error occurred';
+            if (!payload.messages) throw new Error(errorMessage);
+            savedMessages = payload.messages;
+            interruptedError = errorMessage;
+          }
+        }
+      } else {
+        // Answers that need no generation (e.g. nothing retrieved) come back as plain JSON
+        savedMessages = aiResponse.messages;
+      }
 
-      if (aiMsgError) throw aiMsgError;
+      if (!savedMessages) throw new Error('The response was not saved');
 
-      setMessages(prev => [...prev, aiMsgData as Message]);
+      // Swap the optimistic messages for the stored rows
+      const { user: storedUserMessage, assistant: storedAssistantMessage } = savedMessages;
+      setMessages(prev => [
+        ...prev.filter(msg => msg.id !== tempUserMessageId && msg.id !== streamingId),
+        storedUserMessage,
+        storedAssistantMessage
+      ]);
 
       // Update conversation title if it's the first message
       if (messages.length === 0) {
@@ -259,21 +374,74 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({ documentsRefreshTr
         ));
       }
 
-    } catch (error: any) {
+      if (interruptedError) {
+        toast({
+          title: "The answer was interrupted",
+          description: interruptedError,
+          variant: "destructive"
+        });
+      }
+
+    } catch (error) {
       console.error('Error sending message:', error);
       toast({
         title: "Error sending message",
-        description: error.message || "Failed to send message",
+        description: await getFunctionErrorMessage(error, "Failed to send message"),
         variant: "destructive"
       });
       
-      // Remove the temp user message on error
-      setMessages(prev => prev.filter(msg => msg.id !== `temp-${Date.now()}`));
+      // Remove the temp user message and any partial answer on error
+      setMessages(prev => prev.filter(msg => msg.id !== tempUserMessageId && msg.id !== streamingId));
     } finally {
+      setStreamingMessageId(null);
       setLoading(false);
     }
   };
 
+  const focusSource = (messageId: string, index: number) => {
+    const key = `${messageId}-${index}`;
+    setActiveSourceKey(key);
+    document.getElementById(`source-${key}`)?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+  };
+
+  // Render [n] markers as superscripts that jump to the cited source
+  const renderContent = (message: Message) => {
+    const sourceIndices = new Set((message.sources || []).map(source => source.index));
+    if (message.role !== 'assistant' || sourceIndices.size === 0) return message.content;
+
+    return message.content.split(/(\[\d+\])/).map((part, position) => {
+      const match = part.match(/^\[(\d+)\]$/);
+      const index = match ? Number(match[1]) : null;
+      if (index === null || !sourceIndices.has(index)) return part;
+
+      return (
+        <sup key={position}>
+          <button
+            type="button"
+            onClick={() => focusSource(message.id, index)}
+            className="px-0.5 font-medium text-primary hover:underline"
+          >
+            {index}
+          </button>
+        </sup>
+      );
+    });
+  };
+
+  const completedDocuments = documents.filter(document => document.status === 'completed');
+  // Scoped documents keep their chip while they are reprocessed or after they failed
+  const scopedDocuments = documents.filter(document => scopeDocumentIds.includes(document.id));
+  // Editing a scope also lists its unprocessed documents so they can be removed
+  const scopeDialogDocuments = documents.filter(
+    document => document.status === 'completed' || scopeDocumentIds.includes(document.id)
+  );
+
+  const formatPageRange = (source: { page_number: number; end_page_number?: number | null }) => {
+    return source.end_page_number && source.end_page_number > source.page_number
+      ? `Pages ${source.page_number}–${source.end_page_number}`
+      : `Page ${source.page_number}`;
+  };
+
   const formatTime = (dateString: string) => {
     return new Date(dateString).toLocaleTimeString('en-US', {
       hour: '2-digit',
@@ -287,7 +455,7 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({ documentsRefreshTr
       <div className="hidden md:flex md:w-80 lg:w-96 border-r border-border/50 bg-background/40 backdrop-blur-sm flex-col">
         <div className="p-4 border-b border-border/50">
           <Button 
-            onClick={createNewConversation}
+            onClick={() => setScopeDialog('create')}
             className="w-full bg-gradient-primary hover:opacity-90 transition-spring btn-animate shadow-button text-sm font-medium"
             disabled={!hasDocuments}
           >
@@ -381,16 +549,29 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({ documentsRefreshTr
                             : "bg-background/80 backdrop-blur-sm border border-border/50"
                         )}
                       >
-                        <p className="whitespace-pre-wrap">{message.content}</p>
+                        <p className="whitespace-pre-wrap">{renderContent(message)}</p>
                         
                         {message.sources && message.sources.length > 0 && (
                           <div className="mt-3 pt-3 border-t border-border/30">
                             <p className="text-xs opacity-80 mb-2">Sources:</p>
-                            {message.sources.map((source: any, index: number) => (
-                              <div key={index} className="flex items-center space-x-2 text-xs opacity-80">
-                                <ExternalLink className="w-3 h-3" />
-                                <span>{source.document_name} (Page {source.page_number})</span>
-                              </div>
+                            {message.sources.map((source) => (
+                              <button
+                                key={source.index}
+                                type="button"
+                                id={`source-${message.id}-${source.index}`}
+                                title={source.snippet}
+                                onClick={() => setPreviewSource(source)}
+                                className={cn(
+                                  "flex w-full items-center space-x-2 text-left text-xs rounded px-1 -mx-1 transition-smooth hover:opacity-100 hover:underline",
+                                  activeSourceKey === `${message.id}-${source.index}` ? "bg-primary/10 opacity-100" : "opacity-80"
+                                )}
+                              >
+                                <ExternalLink className="w-3 h-3 flex-shrink-0" />
+                                <span>
+                                  [{source.index}] {source.document_name}
+                                  {source.heading_path && <> › {source.heading_path}</>} ({formatPageRange(source)})
+                                </span>
+                              </button>
                             ))}
                           </div>
                         )}
@@ -404,7 +585,7 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({ documentsRefreshTr
                       </div>
                     </div>
                   ))}
-                  {loading && (
+                  {loading && !streamingMessageId && (
                     <div className="flex justify-start">
                       <div className="bg-muted border border-border/50 p-3 rounded-lg">
                         <LoadingSpinner size="sm" />
@@ -418,6 +599,37 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({ documentsRefreshTr
 
             {/* Message Input */}
             <div className="p-4 md:p-6 border-t border-border/50 bg-background/20 backdrop-blur-sm">
+              {/* Active document scope */}
+              <div className="flex flex-wrap items-center gap-2 mb-3">
+                <span className="text-xs text-muted-foreground">Searching:</span>
+                {scopeDocumentIds.length === 0 ? (
+                  <Badge variant="secondary">All documents</Badge>
+                ) : (
+                  scopedDocuments.map(document => {
+                    const statusLabel = UNSEARCHABLE_STATUS_LABELS[document.status];
+                    return (
+                      <Badge
+                        key={document.id}
+                        variant={document.status === 'error' ? 'destructive' : statusLabel ? 'outline' : 'secondary'}
+                        className="max-w-[16rem]"
+                        title={statusLabel ? `${document.name} is not searchable until it is processed` : undefined}
+                      >
+                        <span className="truncate">{document.name}</span>
+                        {statusLabel && <span className="ml-1 shrink-0 font-normal">· {statusLabel}</span>}
+                      </Badge>
+                    );
+                  })
+                )}
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setScopeDialog('edit')}
+                  className="h-6 px-2 text-xs text-muted-foreground"
+                >
+                  <SlidersHorizontal className="w-3 h-3 mr-1" />
+                  Edit
+                </Button>
+              </div>
               <div className="flex space-x-3">
                 <Input
                   value={inputMessage}
@@ -459,7 +671,7 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({ documentsRefreshTr
               </div>
               {hasDocuments && (
                 <Button 
-                  onClick={createNewConversation}
+                  onClick={() => setScopeDialog('create')}
                   className="bg-gradient-primary hover:opacity-90 transition-spring btn-animate shadow-button text-lg py-6 px-8"
                 >
                   <Plus className="w-5 h-5 mr-2" />
@@ -476,6 +688,18 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({ documentsRefreshTr
           </div>
         )}
       </div>
+
+      <SourcePreviewDrawer source={previewSource} onClose={() => setPreviewSource(null)} />
+
+      <ConversationScopeDialog
+        open={scopeDialog !== null}
+        onOpenChange={(open) => !open && setScopeDialog(null)}
+        documents={scopeDialog === 'edit' ? scopeDialogDocuments : completedDocuments}
+        selectedIds={scopeDialog === 'edit' ? scopeDocumentIds : ALL_DOCUMENTS}
+        title={scopeDialog === 'edit' ? 'Conversation documents' : 'New conversation'}
+        confirmLabel={scopeDialog === 'edit' ? 'Save' : 'Start chat'}
+        onConfirm={scopeDialog === 'edit' ? updateConversationScope : createNewConversation}
+      />
     </div>
   );
 };
\ No newline at end of file
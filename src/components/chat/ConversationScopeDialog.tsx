@@ -0,0 +1,94 @@
+import { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { FileText } from 'lucide-react';
+
+export interface ScopeDocument {
+  id: string;
+  name: string;
+}
+
+interface ConversationScopeDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  documents: ScopeDocument[];
+  // Currently scoped document ids; empty means all documents
+  selectedIds: string[];
+  title: string;
+  confirmLabel: string;
+  // Resolves to false when saving failed and the dialog should stay open
+  onConfirm: (documentIds: string[]) => Promise<boolean>;
+}
+
+// Pick the documents a conversation searches; leaving everything unchecked searches all documents
+export const ConversationScopeDialog: React.FC<ConversationScopeDialogProps> = ({
+  open,
+  onOpenChange,
+  documents,
+  selectedIds,
+  title,
+  confirmLabel,
+  onConfirm
+}) => {
+  const [selection, setSelection] = useState<string[]>(selectedIds);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (open) setSelection(selectedIds);
+  }, [open, selectedIds]);
+
+  const toggleDocument = (id: string, checked: boolean) => {
+    setSelection(prev => checked ? [...prev, id] : prev.filter(documentId => documentId !== id));
+  };
+
+  const handleConfirm = async () => {
+    setSaving(true);
+    try {
+      if (await onConfirm(selection)) onOpenChange(false);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+          <DialogDescription>
+            Choose the documents this conversation should answer from. Leave all unchecked to search every document.
+          </DialogDescription>
+        </DialogHeader>
+
+        <ScrollArea className="max-h-72 pr-3">
+          <div className="space-y-2">
+            {documents.map(document => (
+              <label
+                key={document.id}
+                className="flex items-center space-x-3 p-2 rounded-lg cursor-pointer hover:bg-muted/50 transition-smooth"
+              >
+                <Checkbox
+                  checked={selection.includes(document.id)}
+                  onCheckedChange={(checked) => toggleDocument(document.id, checked === true)}
+                />
+                <FileText className="w-4 h-4 text-primary flex-shrink-0" />
+                <span className="text-sm truncate">{document.name}</span>
+              </label>
+            ))}
+          </div>
+        </ScrollArea>
+
+        <DialogFooter>
+          <Button variant="ghost" onClick={() => onOpenChange(false)} disabled={saving}>
+            Cancel
+          </Button>
+          <Button onClick={handleConfirm} disabled={saving} className="bg-gradient-primary hover:opacity-90">
+            {selection.length === 0 ? `${confirmLabel} (all documents)` : `${confirmLabel} (${selection.length})`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,163 @@
+import { useEffect, useState } from 'react';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from '@/components/ui/sheet';
+import { Button } from '@/components/ui/button';
+import { LoadingSpinner } from '@/components/ui/loading-spinner';
+import { PdfViewer, type PageHighlight } from '@/components/documents/PdfViewer';
+import { ExternalLink } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import type { ChatSource } from '@shared/chat-sources';
+
+interface SourcePreview {
+  documentName: string;
+  mimeType: string;
+  signedUrl: string;
+  chunkContent: string | null;
+}
+
+interface SourcePreviewDrawerProps {
+  source: ChatSource | null;
+  onClose: () => void;
+}
+
+// Signed URLs only need to outlive the preview
+const SIGNED_URL_EXPIRY_SECONDS = 60 * 10;
+
+// Map the chunk's offsets onto each page it spans
+const getPageHighlights = (source: ChatSource): Record<number, PageHighlight> => {
+  if (source.start_offset === null || source.end_offset === null) return {};
+
+  const highlights: Record<number, PageHighlight> = {};
+  for (let page = source.page_number; page <= source.end_page_number; page++) {
+    highlights[page] = {
+      start: page === source.page_number ? source.start_offset : 0,
+      end: page === source.end_page_number ? source.end_offset : Number.POSITIVE_INFINITY,
+    };
+  }
+  return highlights;
+};
+
+export const SourcePreviewDrawer: React.FC<SourcePreviewDrawerProps> = ({ source, onClose }) => {
+  const [preview, setPreview] = useState<SourcePreview | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!source) return;
+
+    let cancelled = false;
+
+    const loadPreview = async () => {
+      setLoading(true);
+      setError(null);
+      setPreview(null);
+
+      try {
+        if (!source.document_id) {
+          throw new Error('This source was saved before previews were available.');
+        }
+
+        const { data: document, error: documentError } = await supabase
+          .from('documents')
+          .select('name, file_path, mime_type')
+          .eq('id', source.document_id)
+          .maybeSingle();
+
+        if (documentError) throw documentError;
+        if (!document) throw new Error('The document has been deleted.');
+
+        const { data: signed, error: signedUrlError } = await supabase.storage
+          .from('documents')
+          .createSignedUrl(document.file_path, SIGNED_URL_EXPIRY_SECONDS);
+
+        if (signedUrlError) throw signedUrlError;
+
+        let chunkContent: string | null = null;
+        if (source.chunk_id) {
+          const { data: chunk } = await supabase
+            .from('document_chunks')
+            .select('content')
+            .eq('id', source.chunk_id)
+            .maybeSingle();
+          chunkContent = chunk?.content ?? null;
+        }
+
+        if (!cancelled) {
+          setPreview({
+            documentName: document.name,
+            mimeType: document.mime_type,
+            signedUrl: signed.signedUrl,
+            chunkContent,
+          });
+        }
+      } catch (error) {
+        console.error('Error loading source preview:', error);
+        if (!cancelled) setError(error instanceof Error ? error.message : 'Could not load the source');
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    loadPreview();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [source]);
+
+  const pageLabel = source && source.end_page_number > source.page_number
+    ? `Pages ${source.page_number}–${source.end_page_number}`
+    : `Page ${source?.page_number}`;
+
+  return (
+    <Sheet open={!!source} onOpenChange={(open) => !open && onClose()}>
+      <SheetContent side="right" className="w-full sm:max-w-2xl flex flex-col gap-4 p-0">
+        <SheetHeader className="px-6 pt-6">
+          <SheetTitle className="pr-6 truncate">
+            {source ? `[${source.index}] ${preview?.documentName ?? source.document_name}` : 'Source'}
+          </SheetTitle>
+          <SheetDescription className="flex items-center justify-between">
+            <span className="truncate">
+              {source?.heading_path ? `${source.heading_path} · ${pageLabel}` : pageLabel}
+            </span>
+            {preview && (
+              <Button variant="ghost" size="sm" asChild>
+                <a href={preview.signedUrl} target="_blank" rel="noopener noreferrer">
+                  <ExternalLink className="w-4 h-4 mr-1" />
+                  Open original
+                </a>
+              </Button>
+            )}
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="flex-1 min-h-0 border-t border-border/50">
+          {loading && (
+            <div className="flex items-center justify-center py-8">
+              <LoadingSpinner size="md" />
+              <span className="ml-2 text-muted-foreground">Loading source...</span>
+            </div>
+          )}
+          {error && (
+            <p className="text-sm text-destructive text-center p-6">{error}</p>
+          )}
+          {source && preview && (
+            preview.mimeType === 'application/pdf' ? (
+              <PdfViewer
+                url={preview.signedUrl}
+                initialPage={source.page_number}
+                highlights={getPageHighlights(source)}
+              />
+            ) : (
+              // Other formats have no page layout to show, so show the cited passage itself
+              <div className="h-full overflow-y-auto p-6">
+                <p className="whitespace-pre-wrap text-sm leading-relaxed">
+                  <mark className="bg-yellow-300/40 rounded-sm">{preview.chunkContent ?? source.snippet}</mark>
+                </p>
+              </div>
+            )
+          )}
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+};
@@ -25,7 +25,7 @@ export const Dashboard = () => {
               Transform Your Documents with AI
             </h2>
             <p className="text-lg text-muted-foreground max-w-2xl mx-auto">
-              Upload your PDFs and start intelligent conversations. Ask questions, get insights, 
+              Upload your documents and start intelligent conversations. Ask questions, get insights, 
               and discover information with AI-powered document analysis.
             </p>
           </div>
@@ -39,7 +39,7 @@ export const Dashboard = () => {
                 </div>
                 <CardTitle className="text-lg">Upload Documents</CardTitle>
                 <CardDescription>
-                  Simply drag and drop your PDF files to get started
+                  Drag and drop PDF, Word, Markdown, HTML or text files to get started
                 </CardDescription>
               </CardHeader>
             </Card>
@@ -110,7 +110,7 @@ export const Dashboard = () => {
                 <div>
                   <h4 className="font-semibold text-ai-blue mb-2">Getting Started Tips</h4>
                   <ul className="text-sm text-ai-blue/80 space-y-1">
-                    <li>• Upload PDF documents up to 10MB in size</li>
+                    <li>• Upload PDF, DOCX, Markdown, HTML or TXT documents up to 10MB in size</li>
                     <li>• Wait for processing to complete before starting conversations</li>
                     <li>• Ask specific questions to get the most accurate answers</li>
                     <li>• Use multiple conversations to organize different topics</li>
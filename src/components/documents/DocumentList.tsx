@@ -2,11 +2,15 @@ import { useEffect, useState } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
 import { LoadingSpinner } from '@/components/ui/loading-spinner';
 import { useToast } from '@/hooks/use-toast';
-import { FileText, Trash2, Clock, CheckCircle, AlertCircle, Loader } from 'lucide-react';
+import { FileText, Trash2, Clock, CheckCircle, AlertCircle, Loader, RotateCcw } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/hooks/useAuth';
+import { getFunctionErrorMessage } from '@/lib/function-errors';
+import type { Tables } from '@/integrations/supabase/types';
+import { DOCUMENT_ERROR_LABELS, type DocumentErrorCode, type DocumentStatus } from '@shared/document-status';
 
 interface Document {
   id: string;
@@ -14,13 +18,20 @@ interface Document {
   original_name: string;
   file_path: string;
   file_size: number;
-  status: string;
+  status: DocumentStatus;
   total_pages?: number;
   total_chunks: number;
+  error_code?: DocumentErrorCode;
   error_message?: string;
   created_at: string;
 }
 
+type IngestionJob = Tables<'ingestion_jobs'>;
+
+type IngestionStage = 'download' | 'extract' | 'chunk' | 'embed' | 'store';
+
+type IngestionProgress = Partial<Record<IngestionStage, { done: number; total: number }>>;
+
 interface DocumentListProps {
   refreshTrigger?: number;
 }
@@ -29,6 +40,9 @@ export const DocumentList: React.FC<DocumentListProps> = ({ refreshTrigger }) =>
   const [documents, setDocuments] = useState<Document[]>([]);
   const [loading, setLoading] = useState(true);
   const [deletingId, setDeletingId] = useState<string | null>(null);
+  const [reprocessingId, setReprocessingId] = useState<string | null>(null);
+  // Latest ingestion job per document, keyed by document id
+  const [jobs, setJobs] = useState<Record<string, IngestionJob>>({});
   const { user } = useAuth();
   const { toast } = useToast();
 
@@ -43,7 +57,7 @@ export const DocumentList: React.FC<DocumentListProps> = ({ refreshTrigger }) =>
         .order('created_at', { ascending: false });
 
       if (error) throw error;
-      setDocuments(data || []);
+      setDocuments((data || []) as Document[]);
     } catch (error: any) {
       console.error('Error fetching documents:', error);
       toast({
@@ -56,10 +70,67 @@ export const DocumentList: React.FC<DocumentListProps> = ({ refreshTrigger }) =>
     }
   };
 
+  const fetchActiveJobs = async () => {
+    if (!user) return;
+
+    const { data, error } = await supabase
+      .from('ingestion_jobs')
+      .select('*')
+      .eq('user_id', user.id)
+      .in('status', ['queued', 'running']);
+
+    if (error) {
+      console.error('Error fetching ingestion jobs:', error);
+      return;
+    }
+
+    setJobs(Object.fromEntries((data || []).map(job => [job.document_id, job])));
+  };
+
   useEffect(() => {
     fetchDocuments();
+    fetchActiveJobs();
   }, [user, refreshTrigger]);
 
+  // Keep statuses, counts and ingestion progress live without reloading
+  useEffect(() => {
+    if (!user) return;
+
+    const channel = supabase
+      .channel(`documents-${user.id}`)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'documents', filter: `user_id=eq.${user.id}` },
+        (payload) => {
+          if (payload.eventType === 'DELETE') {
+            setDocuments(prev => prev.filter(doc => doc.id !== (payload.old as Document).id));
+            return;
+          }
+
+          const changed = payload.new as Document;
+          setDocuments(prev => prev.some(doc => doc.id === changed.id)
+            ? prev.map(doc => doc.id === changed.id ? { ...doc, ...changed } : doc)
+            : [changed, ...prev]
+          );
+        }
+      )
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'ingestion_jobs', filter: `user_id=eq.${user.id}` },
+        (payload) => {
+          if (payload.eventType === 'DELETE') return;
+
+          const job = payload.new as IngestionJob;
+          setJobs(prev => ({ ...prev, [job.document_id]: job }));
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [user]);
+
   const deleteDocument = async (id: string, filePath: string) => {
     setDeletingId(id);
     try {
@@ -98,7 +169,39 @@ export const DocumentList: React.FC<DocumentListProps> = ({ refreshTrigger }) =>
     }
   };
 
-  const getStatusBadge = (status: string) => {
+  const reprocessDocument = async (id: string) => {
+    setReprocessingId(id);
+    try {
+      const { error } = await supabase.functions.invoke('reprocess-document', {
+        body: { documentId: id }
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: "Reprocessing started",
+        description: "The document has been queued for processing again.",
+      });
+    } catch (error) {
+      console.error('Reprocess error:', error);
+      toast({
+        title: "Reprocess failed",
+        description: await getFunctionErrorMessage(error, 'Could not queue the document'),
+        variant: "destructive"
+      });
+    } finally {
+      setReprocessingId(null);
+    }
+  };
+
+  // Failed and completed documents can be reprocessed, as can "processing" ones whose job is gone
+  const canReprocess = (doc: Document) => {
+    if (doc.status === 'error' || doc.status === 'completed') return true;
+    const job = jobs[doc.id];
+    return doc.status === 'processing' && (!job || (job.status !== 'queued' && job.status !== 'running'));
+  };
+
+  const getStatusBadge = (status: DocumentStatus) => {
     switch (status) {
       case 'completed':
         return (
@@ -137,6 +240,33 @@ export const DocumentList: React.FC<DocumentListProps> = ({ refreshTrigger }) =>
     }
   };
 
+  // Describe where an active ingestion job is, e.g. "Embedding 120/340 chunks"
+  const getJobProgress = (job?: IngestionJob) => {
+    if (!job || (job.status !== 'queued' && job.status !== 'running')) return null;
+    if (job.status === 'queued') return { label: 'Queued for processing', value: 0 };
+
+    const stage = job.stage as IngestionStage;
+    const progress = (job.progress as IngestionProgress)[stage];
+    const done = progress?.done ?? 0;
+    const total = progress?.total ?? 0;
+    const value = total > 0 ? Math.round((done / total) * 100) : 0;
+
+    switch (stage) {
+      case 'download':
+        return { label: 'Downloading file', value };
+      case 'extract':
+        return { label: total > 0 ? `Extracted ${total} pages` : 'Extracting text', value };
+      case 'chunk':
+        return { label: `Chunking ${done}/${total} chunks`, value };
+      case 'embed':
+        return { label: `Embedding ${done}/${total} chunks`, value };
+      case 'store':
+        return { label: 'Saving document', value };
+      default:
+        return { label: 'Processing', value };
+    }
+  };
+
   const formatFileSize = (bytes: number) => {
     const mb = bytes / (1024 * 1024);
     return `${mb.toFixed(2)} MB`;
@@ -179,56 +309,85 @@ export const DocumentList: React.FC<DocumentListProps> = ({ refreshTrigger }) =>
             <FileText className="w-12 h-12 mx-auto mb-4 text-muted-foreground" />
             <p className="text-muted-foreground">No documents uploaded yet</p>
             <p className="text-sm text-muted-foreground mt-2">
-              Upload your first PDF to start chatting with your documents
+              Upload your first document to start chatting with it
             </p>
           </div>
         ) : (
           <div className="space-y-3">
-            {documents.map((doc) => (
-              <div
-                key={doc.id}
-                className="flex items-center justify-between p-4 border border-border/50 rounded-lg hover:bg-muted/30 transition-smooth"
-              >
-                <div className="flex items-center space-x-3 flex-1 min-w-0">
-                  <FileText className="w-8 h-8 text-primary flex-shrink-0" />
-                  <div className="flex-1 min-w-0">
-                    <h4 className="font-medium truncate">{doc.name}</h4>
-                    <div className="flex items-center space-x-3 text-sm text-muted-foreground">
-                      <span>{formatFileSize(doc.file_size)}</span>
-                      {doc.total_pages && (
-                        <span>{doc.total_pages} pages</span>
+            {documents.map((doc) => {
+              const jobProgress = doc.status === 'processing' ? getJobProgress(jobs[doc.id]) : null;
+
+              return (
+                <div
+                  key={doc.id}
+                  className="flex items-center justify-between p-4 border border-border/50 rounded-lg hover:bg-muted/30 transition-smooth"
+                >
+                  <div className="flex items-center space-x-3 flex-1 min-w-0">
+                    <FileText className="w-8 h-8 text-primary flex-shrink-0" />
+                    <div className="flex-1 min-w-0">
+                      <h4 className="font-medium truncate">{doc.name}</h4>
+                      <div className="flex items-center space-x-3 text-sm text-muted-foreground">
+                        <span>{formatFileSize(doc.file_size)}</span>
+                        {doc.total_pages && (
+                          <span>{doc.total_pages} pages</span>
+                        )}
+                        {doc.status === 'completed' && (
+                          <span>{doc.total_chunks} chunks</span>
+                        )}
+                        <span>{formatDate(doc.created_at)}</span>
+                      </div>
+                      {doc.status === 'error' && doc.error_message && (
+                        <p className="text-sm text-destructive mt-1">
+                          {doc.error_code && (
+                            <span className="font-medium">{DOCUMENT_ERROR_LABELS[doc.error_code] ?? doc.error_code}: </span>
+                          )}
+                          {doc.error_message}
+                        </p>
                       )}
-                      {doc.status === 'completed' && (
-                        <span>{doc.total_chunks} chunks</span>
+                      {jobProgress && (
+                        <div className="mt-2 space-y-1">
+                          <Progress value={jobProgress.value} className="h-1.5" />
+                          <p className="text-xs text-muted-foreground">{jobProgress.label}</p>
+                        </div>
                       )}
-                      <span>{formatDate(doc.created_at)}</span>
                     </div>
-                    {doc.error_message && (
-                      <p className="text-sm text-destructive mt-1">
-                        {doc.error_message}
-                      </p>
-                    )}
                   </div>
-                </div>
                 
-                <div className="flex items-center space-x-3">
-                  {getStatusBadge(doc.status)}
-                  <Button
-                    variant="ghost"
-                    size="sm"
-                    onClick={() => deleteDocument(doc.id, doc.file_path)}
-                    disabled={deletingId === doc.id}
-                    className="text-muted-foreground hover:text-destructive"
-                  >
-                    {deletingId === doc.id ? (
-                      <LoadingSpinner size="sm" />
-                    ) : (
-                      <Trash2 className="w-4 h-4" />
+                  <div className="flex items-center space-x-3">
+                    {getStatusBadge(doc.status)}
+                    {canReprocess(doc) && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => reprocessDocument(doc.id)}
+                        disabled={reprocessingId === doc.id}
+                        title="Reprocess document"
+                        className="text-muted-foreground hover:text-primary"
+                      >
+                        {reprocessingId === doc.id ? (
+                          <LoadingSpinner size="sm" />
+                        ) : (
+                          <RotateCcw className="w-4 h-4" />
+                        )}
+                      </Button>
                     )}
-                  </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => deleteDocument(doc.id, doc.file_path)}
+                      disabled={deletingId === doc.id}
+                      className="text-muted-foreground hover:text-destructive"
+                    >
+                      {deletingId === doc.id ? (
+                        <LoadingSpinner size="sm" />
+                      ) : (
+                        <Trash2 className="w-4 h-4" />
+                      )}
+                    </Button>
+                  </div>
                 </div>
-              </div>
-            ))}
+              );
+            })}
           </div>
         )}
       </CardContent>
@@ -0,0 +1,223 @@
+import { useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react';
+import type { getDocumentProxy } from 'unpdf';
+import { LoadingSpinner } from '@/components/ui/loading-spinner';
+import { findHighlightedItems, type PageTextItem } from '@/lib/pdf-highlight';
+
+type PdfDocument = Awaited<ReturnType<typeof getDocumentProxy>>;
+type PdfPage = Awaited<ReturnType<PdfDocument['getPage']>>;
+
+interface PositionedTextItem extends PageTextItem {
+  transform: number[];
+  width: number;
+}
+
+// Character range to highlight within a page's normalized text
+export interface PageHighlight {
+  start: number;
+  end: number;
+}
+
+interface HighlightBox {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+interface PdfViewerProps {
+  url: string;
+  // 1-based page to scroll to once the document has loaded
+  initialPage: number;
+  highlights?: Record<number, PageHighlight>;
+}
+
+// Multiply two PDF transformation matrices [a, b, c, d, e, f]
+const multiplyTransforms = (m1: number[], m2: number[]) => [
+  m1[0] * m2[0] + m1[2] * m2[1],
+  m1[1] * m2[0] + m1[3] * m2[1],
+  m1[0] * m2[2] + m1[2] * m2[3],
+  m1[1] * m2[2] + m1[3] * m2[3],
+  m1[0] * m2[4] + m1[2] * m2[5] + m1[4],
+  m1[1] * m2[4] + m1[3] * m2[5] + m1[5],
+];
+
+const PdfPageView: React.FC<{ page: PdfPage; scale: number; highlight?: PageHighlight }> = ({ page, scale, highlight }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [visible, setVisible] = useState(false);
+  const [boxes, setBoxes] = useState<HighlightBox[]>([]);
+  const viewport = useMemo(() => page.getViewport({ scale }), [page, scale]);
+  const highlightStart = highlight?.start;
+  const highlightEnd = highlight?.end;
+
+  // Only render pages near the visible area
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    const observer = new IntersectionObserver(([entry]) => {
+      if (entry.isIntersecting) {
+        setVisible(true);
+        observer.disconnect();
+      }
+    }, { rootMargin: '400px' });
+
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const context = canvas?.getContext('2d');
+    if (!visible || !canvas || !context) return;
+
+    const outputScale = window.devicePixelRatio || 1;
+    canvas.width = Math.floor(viewport.width * outputScale);
+    canvas.height = Math.floor(viewport.height * outputScale);
+
+    const renderTask = page.render({
+      canvasContext: context,
+      viewport,
+      transform: outputScale !== 1 ? [outputScale, 0, 0, outputScale, 0, 0] : undefined,
+    });
+    renderTask.promise.catch((error: Error) => {
+      if (error.name !== 'RenderingCancelledException') {
+        console.error('Error rendering PDF page:', error);
+      }
+    });
+
+    return () => renderTask.cancel();
+  }, [visible, page, viewport]);
+
+  useEffect(() => {
+    if (!visible || highlightStart === undefined || highlightEnd === undefined) {
+      setBoxes([]);
+      return;
+    }
+
+    let cancelled = false;
+
+    page.getTextContent().then(content => {
+      if (cancelled) return;
+
+      // Same items, in the same order, as the ingestion worker's text extraction
+      const items = content.items.filter(
+        (item): item is typeof item & PositionedTextItem => 'str' in item && item.str != null
+      );
+      const highlighted = findHighlightedItems(items, highlightStart, highlightEnd);
+
+      setBoxes([...highlighted].map(index => {
+        const item = items[index];
+        const [, , c, d, e, f] = multiplyTransforms(viewport.transform, item.transform);
+        const fontHeight = Math.hypot(c, d);
+        return { left: e, top: f - fontHeight, width: item.width * viewport.scale, height: fontHeight };
+      }));
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [visible, page, viewport, highlightStart, highlightEnd]);
+
+  return (
+    <div
+      ref={containerRef}
+      data-page-number={page.pageNumber}
+      className="relative mx-auto bg-white shadow-card"
+      style={{ width: viewport.width, height: viewport.height }}
+    >
+      <canvas ref={canvasRef} style={{ width: viewport.width, height: viewport.height }} />
+      {boxes.map((box, index) => (
+        <div
+          key={index}
+          className="absolute rounded-sm bg-yellow-300/40 mix-blend-multiply pointer-events-none"
+          style={box}
+        />
+      ))}
+    </div>
+  );
+};
+
+// Renders a PDF page by page, scrolled to `initialPage`, with the given text ranges highlighted
+export const PdfViewer: React.FC<PdfViewerProps> = ({ url, initialPage, highlights = {} }) => {
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const [pages, setPages] = useState<PdfPage[]>([]);
+  const [scale, setScale] = useState(1);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    let pdf: PdfDocument | null = null;
+
+    const loadDocument = async () => {
+      setLoading(true);
+      setError(null);
+      setPages([]);
+
+      try {
+        const response = await fetch(url);
+        if (!response.ok) throw new Error(`Failed to download the file (${response.status})`);
+        const data = new Uint8Array(await response.arrayBuffer());
+
+        // Loaded on demand: pdf.js is large and only needed for previews
+        const { getDocumentProxy } = await import('unpdf');
+        pdf = await getDocumentProxy(data);
+        const loadedPages = await Promise.all(
+          Array.from({ length: pdf.numPages }, (_, index) => pdf!.getPage(index + 1))
+        );
+        if (cancelled) return;
+
+        // Fit pages to the available width
+        const availableWidth = (scrollRef.current?.clientWidth ?? 600) - 32;
+        const pageWidth = loadedPages[0]?.getViewport({ scale: 1 }).width ?? availableWidth;
+        setScale(Math.min(2, availableWidth / pageWidth));
+        setPages(loadedPages);
+      } catch (error) {
+        console.error('Error loading PDF:', error);
+        if (!cancelled) setError(error instanceof Error ? error.message : 'Could not load the PDF');
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    loadDocument();
+
+    return () => {
+      cancelled = true;
+      pdf?.destroy();
+    };
+  }, [url]);
+
+  // Jump to the cited page once the page placeholders are laid out
+  useLayoutEffect(() => {
+    if (pages.length === 0) return;
+
+    const target = scrollRef.current?.querySelector(`[data-page-number="${initialPage}"]`);
+    target?.scrollIntoView({ block: 'start' });
+  }, [pages, initialPage]);
+
+  return (
+    <div ref={scrollRef} className="h-full overflow-y-auto bg-muted/40 p-4">
+      {loading && (
+        <div className="flex items-center justify-center py-8">
+          <LoadingSpinner size="md" />
+          <span className="ml-2 text-muted-foreground">Loading document...</span>
+        </div>
+      )}
+      {error && (
+        <p className="text-sm text-destructive text-center py-8">{error}</p>
+      )}
+      <div className="space-y-4">
+        {pages.map(page => (
+          <PdfPageView
+            key={page.pageNumber}
+            page={page}
+            scale={scale}
+            highlight={highlights[page.pageNumber]}
+          />
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,294 @@
+import { Fragment, useCallback, useEffect, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  CommandDialog,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+  CommandShortcut,
+} from '@/components/ui/command';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { LoadingSpinner } from '@/components/ui/loading-spinner';
+import { SourcePreviewDrawer } from '@/components/chat/SourcePreviewDrawer';
+import { useToast } from '@/hooks/use-toast';
+import { FileText, Search } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { ACCEPTED_DOCUMENT_TYPES } from '@/lib/document-types';
+import { getFunctionErrorMessage } from '@/lib/function-errors';
+import type { ChatSource } from '@shared/chat-sources';
+import type { HighlightRange, SearchHit, SearchRequest, SearchResponse } from '@shared/search-results';
+
+interface SearchDocument {
+  id: string;
+  name: string;
+}
+
+// Select values; ALL turns a filter off
+interface SearchFilters {
+  documentId: string;
+  mimeType: string;
+  uploadedWithin: string;
+}
+
+const PAGE_SIZE = 10;
+// Wait for a pause in typing before searching
+const SEARCH_DEBOUNCE_MS = 300;
+const ALL = 'all';
+const NO_FILTERS: SearchFilters = { documentId: ALL, mimeType: ALL, uploadedWithin: ALL };
+
+// Upload date filter options, in days
+const UPLOADED_WITHIN: Record<string, { label: string; days: number }> = {
+  week: { label: 'Past week', days: 7 },
+  month: { label: 'Past month', days: 30 },
+  year: { label: 'Past year', days: 365 },
+};
+
+const buildRequest = (query: string, filters: SearchFilters, page: number): SearchRequest => {
+  const request: SearchRequest = { query: query.trim(), page, pageSize: PAGE_SIZE };
+  if (filters.documentId !== ALL) request.documentIds = [filters.documentId];
+  if (filters.mimeType !== ALL) request.mimeTypes = [filters.mimeType];
+  if (filters.uploadedWithin !== ALL) {
+    const days = UPLOADED_WITHIN[filters.uploadedWithin].days;
+    request.uploadedAfter = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+  }
+  return request;
+};
+
+// The source viewer shows a hit like a cited chunk, numbered by its rank
+const toSource = (hit: SearchHit): ChatSource => ({
+  index: hit.rank,
+  chunk_id: hit.chunk_id,
+  document_id: hit.document_id,
+  document_name: hit.document_name,
+  heading_path: hit.heading_path,
+  snippet: hit.snippet,
+  page_number: hit.page_number,
+  end_page_number: hit.end_page_number,
+  start_offset: hit.start_offset,
+  end_offset: hit.end_offset,
+  similarity: hit.similarity,
+  cited: false,
+});
+
+const renderHighlighted = (snippet: string, highlights: HighlightRange[]) => {
+  const parts: React.ReactNode[] = [];
+  let position = 0;
+
+  highlights.forEach((range, index) => {
+    parts.push(<Fragment key={`text-${index}`}>{snippet.slice(position, range.start)}</Fragment>);
+    parts.push(
+      <mark key={`mark-${index}`} className="bg-yellow-300/40 rounded-sm text-foreground">
+        {snippet.slice(range.start, range.end)}
+      </mark>
+    );
+    position = range.end;
+  });
+  parts.push(<Fragment key="rest">{snippet.slice(position)}</Fragment>);
+
+  return parts;
+};
+
+// Command palette (Ctrl/⌘ K) that searches passages across the user's documents without asking the AI
+export const DocumentSearch = () => {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [query, setQuery] = useState('');
+  const [filters, setFilters] = useState<SearchFilters>(NO_FILTERS);
+  const [documents, setDocuments] = useState<SearchDocument[]>([]);
+  const [results, setResults] = useState<SearchHit[]>([]);
+  const [page, setPage] = useState(1);
+  const [hasMore, setHasMore] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [previewSource, setPreviewSource] = useState<ChatSource | null>(null);
+  // Responses to superseded searches are ignored
+  const latestSearch = useRef(0);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'k' && (event.metaKey || event.ctrlKey)) {
+        event.preventDefault();
+        setOpen(prev => !prev);
+      }
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  useEffect(() => {
+    if (!open) return;
+
+    const loadDocuments = async () => {
+      const { data, error } = await supabase
+        .from('documents')
+        .select('id, name')
+        .eq('status', 'completed')
+        .order('name');
+
+      if (error) {
+        console.error('Error loading documents for search:', error);
+        return;
+      }
+      setDocuments(data || []);
+    };
+
+    loadDocuments();
+  }, [open]);
+
+  const runSearch = useCallback(async (request: SearchRequest) => {
+    const searchId = ++latestSearch.current;
+
+    setLoading(true);
+    try {
+      const { data, error } = await supabase.functions.invoke('search-documents', { body: request });
+      if (error) throw error;
+      if (searchId !== latestSearch.current) return;
+
+      const response = data as SearchResponse;
+      setResults(prev => response.page === 1 ? response.results : [...prev, ...response.results]);
+      setPage(response.page);
+      setHasMore(response.hasMore);
+    } catch (error) {
+      console.error('Error searching documents:', error);
+      if (searchId !== latestSearch.current) return;
+      toast({
+        title: "Search failed",
+        description: await getFunctionErrorMessage(error, "Failed to search documents"),
+        variant: "destructive",
+      });
+    } finally {
+      if (searchId === latestSearch.current) setLoading(false);
+    }
+  }, [toast]);
+
+  // Start over whenever the query or a filter changes
+  useEffect(() => {
+    if (!query.trim()) {
+      latestSearch.current++;
+      setResults([]);
+      setHasMore(false);
+      setLoading(false);
+      return;
+    }
+
+    const timer = setTimeout(() => runSearch(buildRequest(query, filters, 1)), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [query, filters, runSearch]);
+
+  const setFilter = (name: keyof SearchFilters) => (value: string) => {
+    setFilters(prev => ({ ...prev, [name]: value }));
+  };
+
+  const openHit = (hit: SearchHit) => {
+    setOpen(false);
+    setPreviewSource(toSource(hit));
+  };
+
+  return (
+    <>
+      <Button
+        variant="outline"
+        className="w-full max-w-xs justify-start text-muted-foreground"
+        onClick={() => setOpen(true)}
+      >
+        <Search className="w-4 h-4 mr-2" />
+        <span className="flex-1 text-left">Search documents...</span>
+        <CommandShortcut>⌘K</CommandShortcut>
+      </Button>
+
+      <CommandDialog open={open} onOpenChange={setOpen} shouldFilter={false}>
+        <CommandInput placeholder="Search passages in your documents..." value={query} onValueChange={setQuery} />
+
+        <div className="grid grid-cols-3 gap-2 border-b p-2">
+          <Select value={filters.documentId} onValueChange={setFilter('documentId')}>
+            <SelectTrigger className="h-8 text-xs">
+              <SelectValue placeholder="Document" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All documents</SelectItem>
+              {documents.map(document => (
+                <SelectItem key={document.id} value={document.id}>{document.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          <Select value={filters.mimeType} onValueChange={setFilter('mimeType')}>
+            <SelectTrigger className="h-8 text-xs">
+              <SelectValue placeholder="Type" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All types</SelectItem>
+              {Object.entries(ACCEPTED_DOCUMENT_TYPES).map(([type, extensions]) => (
+                <SelectItem key={type} value={type}>{extensions[0].slice(1).toUpperCase()}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          <Select value={filters.uploadedWithin} onValueChange={setFilter('uploadedWithin')}>
+            <SelectTrigger className="h-8 text-xs">
+              <SelectValue placeholder="Uploaded" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>Any time</SelectItem>
+              {Object.entries(UPLOADED_WITHIN).map(([key, option]) => (
+                <SelectItem key={key} value={key}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <CommandList className="max-h-[420px]">
+          {query.trim() && !loading && (
+            <CommandEmpty>No matching passages found.</CommandEmpty>
+          )}
+
+          {results.length > 0 && (
+            <CommandGroup heading="Passages">
+              {results.map(hit => (
+                <CommandItem
+                  key={hit.chunk_id}
+                  value={hit.chunk_id}
+                  onSelect={() => openHit(hit)}
+                  className="flex items-start gap-3"
+                >
+                  <FileText className="mt-0.5 text-primary flex-shrink-0" />
+                  <div className="min-w-0 flex-1 space-y-1">
+                    <div className="flex items-center justify-between gap-2 text-xs text-muted-foreground">
+                      <span className="truncate font-medium text-foreground">
+                        {hit.document_name}
+                        {hit.heading_path && <span className="font-normal text-muted-foreground"> › {hit.heading_path}</span>}
+                      </span>
+                      <span className="flex-shrink-0">
+                        p. {hit.end_page_number > hit.page_number ? `${hit.page_number}–${hit.end_page_number}` : hit.page_number}
+                        {' · '}{hit.score.toFixed(3)}
+                      </span>
+                    </div>
+                    <p className="text-sm leading-snug line-clamp-3">
+                      {renderHighlighted(hit.snippet, hit.highlights)}
+                    </p>
+                  </div>
+                </CommandItem>
+              ))}
+              {hasMore && !loading && (
+                <CommandItem value="load-more" onSelect={() => runSearch(buildRequest(query, filters, page + 1))} className="justify-center text-primary">
+                  Load more results
+                </CommandItem>
+              )}
+            </CommandGroup>
+          )}
+
+          {loading && (
+            <div className="flex items-center justify-center py-6">
+              <LoadingSpinner size="sm" />
+              <span className="ml-2 text-sm text-muted-foreground">Searching...</span>
+            </div>
+          )}
+        </CommandList>
+      </CommandDialog>
+
+      <SourcePreviewDrawer source={previewSource} onClose={() => setPreviewSource(null)} />
+    </>
+  );
+};
@@ -7,6 +7,8 @@ import { useToast } from '@/hooks/use-toast';
 import { Upload, FileText, X, AlertCircle } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/hooks/useAuth';
+import { ACCEPTED_DOCUMENT_TYPES, resolveDocumentMimeType } from '@/lib/document-types';
+import type { DocumentErrorCode, DocumentStatus } from '@shared/document-status';
 
 interface DocumentUploadProps {
   onUploadComplete?: () => void;
@@ -22,10 +24,10 @@ export const DocumentUpload: React.FC<DocumentUploadProps> = ({ onUploadComplete
   const onDrop = useCallback((acceptedFiles: File[]) => {
     const file = acceptedFiles[0];
     if (file) {
-      if (file.type !== 'application/pdf') {
+      if (!resolveDocumentMimeType(file)) {
         toast({
           title: "Invalid file type",
-          description: "Please upload a PDF file only.",
+          description: "Please upload a PDF, Word (.docx), Markdown, HTML or plain text file.",
           variant: "destructive"
         });
         return;
@@ -46,9 +48,7 @@ export const DocumentUpload: React.FC<DocumentUploadProps> = ({ onUploadComplete
 
   const { getRootProps, getInputProps, isDragActive } = useDropzone({
     onDrop,
-    accept: {
-      'application/pdf': ['.pdf']
-    },
+    accept: ACCEPTED_DOCUMENT_TYPES,
     multiple: false
   });
 
@@ -81,8 +81,8 @@ export const DocumentUpload: React.FC<DocumentUploadProps> = ({ onUploadComplete
           original_name: selectedFile.name,
           file_path: filePath,
           file_size: selectedFile.size,
-          mime_type: selectedFile.type,
-          status: 'processing'
+          mime_type: resolveDocumentMimeType(selectedFile),
+          status: 'processing' satisfies DocumentStatus
         })
         .select()
         .single();
@@ -102,8 +102,9 @@ export const DocumentUpload: React.FC<DocumentUploadProps> = ({ onUploadComplete
         await supabase
           .from('documents')
           .update({ 
-            status: 'error', 
-            error_message: 'Failed to process document' 
+            status: 'error' satisfies DocumentStatus, 
+            error_code: 'ENQUEUE_FAILED' satisfies DocumentErrorCode,
+            error_message: 'Failed to start processing the document' 
           })
           .eq('id', data.id);
       }
@@ -152,13 +153,13 @@ export const DocumentUpload: React.FC<DocumentUploadProps> = ({ onUploadComplete
             <input {...getInputProps()} />
             <Upload className="w-12 h-12 mx-auto mb-4 text-muted-foreground" />
             <h3 className="text-lg font-semibold mb-2">
-              {isDragActive ? 'Drop your PDF here' : 'Upload your document'}
+              {isDragActive ? 'Drop your document here' : 'Upload your document'}
             </h3>
             <p className="text-muted-foreground mb-4">
-              Drag and drop your PDF file here, or click to select
+              Drag and drop your file here, or click to select
             </p>
             <div className="flex items-center justify-center space-x-4 text-sm text-muted-foreground">
-              <span>• PDF files only</span>
+              <span>• PDF, DOCX, MD, HTML, TXT</span>
               <span>• Max 10MB</span>
             </div>
           </div>
@@ -14,6 +14,42 @@ export type Database = {
   }
   public: {
     Tables: {
+      conversation_documents: {
+        Row: {
+          conversation_id: string
+          created_at: string
+          document_id: string
+          user_id: string
+        }
+        Insert: {
+          conversation_id: string
+          created_at?: string
+          document_id: string
+          user_id: string
+        }
+        Update: {
+          conversation_id?: string
+          created_at?: string
+          document_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "conversation_documents_conversation_id_fkey"
+            columns: ["conversation_id"]
+            isOneToOne: false
+            referencedRelation: "conversations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "conversation_documents_document_id_fkey"
+            columns: ["document_id"]
+            isOneToOne: false
+            referencedRelation: "documents"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       conversations: {
         Row: {
           created_at: string
@@ -42,33 +78,60 @@ export type Database = {
         Row: {
           chunk_index: number
           content: string
+          content_tsv: unknown | null
           created_at: string
           document_id: string
           embedding: string | null
+          embedding_dimensions: number | null
+          embedding_model: string | null
+          end_offset: number | null
+          end_page_number: number | null
           id: string
+          metadata: Json
           page_number: number
+          pending_embedding: string | null
+          pending_embedding_model: string | null
+          start_offset: number | null
           token_count: number | null
           user_id: string
         }
         Insert: {
           chunk_index: number
           content: string
+          content_tsv?: unknown | null
           created_at?: string
           document_id: string
           embedding?: string | null
+          embedding_dimensions?: number | null
+          embedding_model?: string | null
+          end_offset?: number | null
+          end_page_number?: number | null
           id?: string
+          metadata?: Json
           page_number: number
+          pending_embedding?: string | null
+          pending_embedding_model?: string | null
+          start_offset?: number | null
           token_count?: number | null
           user_id: string
         }
         Update: {
           chunk_index?: number
           content?: string
+          content_tsv?: unknown | null
           created_at?: string
           document_id?: string
           embedding?: string | null
+          embedding_dimensions?: number | null
+          embedding_model?: string | null
+          end_offset?: number | null
+          end_page_number?: number | null
           id?: string
+          metadata?: Json
           page_number?: number
+          pending_embedding?: string | null
+          pending_embedding_model?: string | null
+          start_offset?: number | null
           token_count?: number | null
           user_id?: string
         }
@@ -85,6 +148,8 @@ export type Database = {
       documents: {
         Row: {
           created_at: string
+          embedding_model: string | null
+          error_code: string | null
           error_message: string | null
           file_path: string
           file_size: number
@@ -100,6 +165,8 @@ export type Database = {
         }
         Insert: {
           created_at?: string
+          embedding_model?: string | null
+          error_code?: string | null
           error_message?: string | null
           file_path: string
           file_size: number
@@ -115,6 +182,8 @@ export type Database = {
         }
         Update: {
           created_at?: string
+          embedding_model?: string | null
+          error_code?: string | null
           error_message?: string | null
           file_path?: string
           file_size?: number
@@ -130,30 +199,143 @@ export type Database = {
         }
         Relationships: []
       }
+      eval_runs: {
+        Row: {
+          config: Json
+          created_at: string
+          fixture: string
+          id: string
+          label: string | null
+          metrics: Json
+          results: Json
+        }
+        Insert: {
+          config?: Json
+          created_at?: string
+          fixture: string
+          id?: string
+          label?: string | null
+          metrics: Json
+          results: Json
+        }
+        Update: {
+          config?: Json
+          created_at?: string
+          fixture?: string
+          id?: string
+          label?: string | null
+          metrics?: Json
+          results?: Json
+        }
+        Relationships: []
+      }
+      ingestion_jobs: {
+        Row: {
+          attempts: number
+          completed_at: string | null
+          created_at: string
+          document_id: string
+          id: string
+          kind: string
+          last_error: string | null
+          last_error_code: string | null
+          locked_at: string | null
+          locked_by: string | null
+          max_attempts: number
+          options: Json
+          progress: Json
+          run_after: string
+          stage: string
+          status: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          attempts?: number
+          completed_at?: string | null
+          created_at?: string
+          document_id: string
+          id?: string
+          kind?: string
+          last_error?: string | null
+          last_error_code?: string | null
+          locked_at?: string | null
+          locked_by?: string | null
+          max_attempts?: number
+          options?: Json
+          progress?: Json
+          run_after?: string
+          stage?: string
+          status?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          attempts?: number
+          completed_at?: string | null
+          created_at?: string
+          document_id?: string
+          id?: string
+          kind?: string
+          last_error?: string | null
+          last_error_code?: string | null
+          locked_at?: string | null
+          locked_by?: string | null
+          max_attempts?: number
+          options?: Json
+          progress?: Json
+          run_after?: string
+          stage?: string
+          status?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ingestion_jobs_document_id_fkey"
+            columns: ["document_id"]
+            isOneToOne: false
+            referencedRelation: "documents"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       messages: {
         Row: {
+          chunk_ids: string[]
           content: string
           conversation_id: string
           created_at: string
           id: string
+          latency_ms: number | null
+          model: string | null
+          provider: string | null
           role: string
           sources: Json | null
           user_id: string
         }
         Insert: {
+          chunk_ids?: string[]
           content: string
           conversation_id: string
           created_at?: string
           id?: string
+          latency_ms?: number | null
+          model?: string | null
+          provider?: string | null
           role: string
           sources?: Json | null
           user_id: string
         }
         Update: {
+          chunk_ids?: string[]
           content?: string
           conversation_id?: string
           created_at?: string
           id?: string
+          latency_ms?: number | null
+          model?: string | null
+          provider?: string | null
           role?: string
           sources?: Json | null
           user_id?: string
@@ -204,6 +386,75 @@ export type Database = {
         Args: { "": string } | { "": unknown }
         Returns: unknown
       }
+      claim_ingestion_job: {
+        Args: { worker_id: string; lock_timeout?: unknown }
+        Returns: {
+          attempts: number
+          completed_at: string | null
+          created_at: string
+          document_id: string
+          id: string
+          kind: string
+          last_error: string | null
+          last_error_code: string | null
+          locked_at: string | null
+          locked_by: string | null
+          max_attempts: number
+          options: Json
+          progress: Json
+          run_after: string
+          stage: string
+          status: string
+          updated_at: string
+          user_id: string
+        }[]
+      }
+      enqueue_ingestion_job: {
+        Args: { target_document_id: string; job_options?: Json }
+        Returns: {
+          attempts: number
+          completed_at: string | null
+          created_at: string
+          document_id: string
+          id: string
+          kind: string
+          last_error: string | null
+          last_error_code: string | null
+          locked_at: string | null
+          locked_by: string | null
+          max_attempts: number
+          options: Json
+          progress: Json
+          run_after: string
+          stage: string
+          status: string
+          updated_at: string
+          user_id: string
+        }
+      }
+      enqueue_reembed_jobs: {
+        Args: { target_user_id: string; target_model: string }
+        Returns: {
+          attempts: number
+          completed_at: string | null
+          created_at: string
+          document_id: string
+          id: string
+          kind: string
+          last_error: string | null
+          last_error_code: string | null
+          locked_at: string | null
+          locked_by: string | null
+          max_attempts: number
+          options: Json
+          progress: Json
+          run_after: string
+          stage: string
+          status: string
+          updated_at: string
+          user_id: string
+        }[]
+      }
       halfvec_avg: {
         Args: { "": number[] }
         Returns: unknown
@@ -236,6 +487,35 @@ export type Database = {
         Args: { "": unknown }
         Returns: unknown
       }
+      hybrid_match_documents: {
+        Args: {
+          query_text: string
+          query_embedding: string
+          match_threshold?: number
+          match_count?: number
+          user_id?: string
+          full_text_weight?: number
+          semantic_weight?: number
+          rrf_k?: number
+          document_ids?: string[]
+          embedding_model?: string
+        }
+        Returns: {
+          id: string
+          document_id: string
+          content: string
+          page_number: number
+          end_page_number: number | null
+          start_offset: number | null
+          end_offset: number | null
+          chunk_index: number
+          metadata: Json
+          similarity: number
+          keyword_rank: number
+          rrf_score: number
+          documents: Json
+        }[]
+      }
       ivfflat_bit_support: {
         Args: { "": unknown }
         Returns: unknown
@@ -262,6 +542,8 @@ export type Database = {
           match_threshold?: number
           match_count?: number
           user_id?: string
+          document_ids?: string[]
+          embedding_model?: string
         }
         Returns: {
           id: string
@@ -273,6 +555,76 @@ export type Database = {
           documents: Json
         }[]
       }
+      nearest_chunks: {
+        Args: {
+          query_embedding: string
+          embedding_model: string
+          user_id: string
+          document_ids: string[]
+          match_count: number
+        }
+        Returns: {
+          id: string
+          distance: number
+        }[]
+      }
+      promote_pending_embeddings: {
+        Args: { target_document_id: string; target_model: string }
+        Returns: number
+      }
+      reprocess_document: {
+        Args: {
+          target_document_id: string
+          target_user_id: string
+          job_options?: Json
+        }
+        Returns: {
+          attempts: number
+          completed_at: string | null
+          created_at: string
+          document_id: string
+          id: string
+          kind: string
+          last_error: string | null
+          last_error_code: string | null
+          locked_at: string | null
+          locked_by: string | null
+          max_attempts: number
+          options: Json
+          progress: Json
+          run_after: string
+          stage: string
+          status: string
+          updated_at: string
+          user_id: string
+        }
+      }
+      save_chat_turn: {
+        Args: {
+          target_conversation_id: string
+          target_user_id: string
+          question: string
+          answer: string
+          answer_sources?: Json
+          answer_provider?: string
+          answer_model?: string
+          answer_latency_ms?: number
+          answer_chunk_ids?: string[]
+        }
+        Returns: {
+          chunk_ids: string[]
+          content: string
+          conversation_id: string
+          created_at: string
+          id: string
+          latency_ms: number | null
+          model: string | null
+          provider: string | null
+          role: string
+          sources: Json | null
+          user_id: string
+        }[]
+      }
       sparsevec_out: {
         Args: { "": unknown }
         Returns: unknown
@@ -0,0 +1,18 @@
+// Document formats the ingestion pipeline can extract text from, keyed by MIME type
+export const ACCEPTED_DOCUMENT_TYPES: Record<string, string[]> = {
+  'application/pdf': ['.pdf'],
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': ['.docx'],
+  'text/markdown': ['.md', '.markdown'],
+  'text/html': ['.html', '.htm'],
+  'text/plain': ['.txt'],
+}
+
+// Browsers often report an empty or generic type for Markdown and text files, so fall back to the extension
+export function resolveDocumentMimeType(file: File): string | null {
+  if (file.type in ACCEPTED_DOCUMENT_TYPES) return file.type
+  if (file.type === 'text/x-markdown') return 'text/markdown'
+
+  const extension = `.${file.name.split('.').pop()?.toLowerCase()}`
+  const match = Object.entries(ACCEPTED_DOCUMENT_TYPES).find(([, extensions]) => extensions.includes(extension))
+  return match ? match[0] : null
+}
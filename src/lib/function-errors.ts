@@ -0,0 +1,17 @@
+import { FunctionsHttpError } from "@supabase/supabase-js"
+import type { ErrorEnvelope } from "@shared/http"
+
+// Message of an edge function error: the `error.message` of the function's JSON error envelope
+// when there is one, otherwise the client error's own message
+export async function getFunctionErrorMessage(error: unknown, fallback: string): Promise<string> {
+  if (error instanceof FunctionsHttpError) {
+    try {
+      const body = (await error.context.json()) as Partial<ErrorEnvelope>
+      if (body.error?.message) return body.error.message
+    } catch {
+      // Not a JSON body
+    }
+  }
+
+  return error instanceof Error && error.message ? error.message : fallback
+}
@@ -0,0 +1,38 @@
+// Locate a chunk's character range among a PDF page's text items.
+// Page text is rebuilt the way the ingestion worker extracts it (unpdf: item text plus a newline
+// at each EOL, then whitespace collapsed and trimmed) so stored chunk offsets line up.
+
+export interface PageTextItem {
+  str: string
+  hasEOL?: boolean
+}
+
+// Indices of the text items overlapping [start, end) of the normalized page text
+export function findHighlightedItems(items: PageTextItem[], start: number, end: number): Set<number> {
+  const highlighted = new Set<number>()
+  let offset = 0
+  let pendingSpace = false
+
+  items.forEach((item, index) => {
+    const raw = item.str + (item.hasEOL ? '\n' : '')
+
+    // Offsets are UTF-16 code units, like String.length in the worker
+    for (let i = 0; i < raw.length; i++) {
+      if (/\s/.test(raw[i])) {
+        // Collapsed whitespace; leading whitespace is trimmed away entirely
+        if (offset > 0) pendingSpace = true
+        continue
+      }
+
+      if (pendingSpace) {
+        offset += 1
+        pendingSpace = false
+      }
+
+      if (offset >= start && offset < end) highlighted.add(index)
+      offset += 1
+    }
+  })
+
+  return highlighted
+}
@@ -0,0 +1,37 @@
+export interface ServerSentEvent {
+  event: string
+  data: string
+}
+
+// Parse a text/event-stream response body into named events as they arrive
+export async function* readServerSentEvents(response: Response): AsyncGenerator<ServerSentEvent> {
+  if (!response.body) return
+
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader()
+  let buffer = ''
+
+  try {
+    while (true) {
+      const { value, done } = await reader.read()
+      if (done) break
+
+      buffer += value
+      const blocks = buffer.split(/\r?\n\r?\n/)
+      buffer = blocks.pop() ?? ''
+
+      for (const block of blocks) {
+        let event = 'message'
+        const data: string[] = []
+
+        for (const line of block.split(/\r?\n/)) {
+          if (line.startsWith('event:')) event = line.slice(6).trim()
+          else if (line.startsWith('data:')) data.push(line.slice(5).trimStart())
+        }
+
+        if (data.length > 0) yield { event, data: data.join('\n') }
+      }
+    }
+  } finally {
+    reader.releaseLock()
+  }
+}
@@ -0,0 +1,25 @@
+import type { SupabaseClient, User } from 'https://esm.sh/@supabase/supabase-js@2';
+
+function getBearerToken(req: Request): string | null {
+  const header = req.headers.get('Authorization') ?? '';
+  const match = header.match(/^Bearer\s+(.+)$/i);
+  return match ? match[1] : null;
+}
+
+// Resolve the caller from the request's Authorization JWT; null when it is missing or invalid.
+// Never trust a user id sent in the request body: the service-role client bypasses RLS.
+export async function getRequestUser(req: Request, supabaseClient: SupabaseClient): Promise<User | null> {
+  const token = getBearerToken(req);
+  if (!token) return null;
+
+  const { data, error } = await supabaseClient.auth.getUser(token);
+  if (error || !data.user) return null;
+
+  return data.user;
+}
+
+// Internal endpoints (e.g. the ingestion worker) only accept the service role key
+export function isServiceRoleRequest(req: Request): boolean {
+  const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+  return !!serviceRoleKey && getBearerToken(req) === serviceRoleKey;
+}
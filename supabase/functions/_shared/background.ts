@@ -0,0 +1,19 @@
+// Background work that outlives the response, on the Supabase edge runtime
+import type { SupabaseClient } from './supabase.ts';
+
+// Provided by the Supabase edge runtime: keeps the isolate alive for background work
+declare const EdgeRuntime: { waitUntil(promise: Promise<unknown>): void };
+
+export function runInBackground(promise: Promise<unknown>): void {
+  EdgeRuntime.waitUntil(promise);
+}
+
+// Wake a worker for newly queued jobs; they are also picked up by the next scheduled worker run
+export function wakeIngestionWorker(supabaseClient: SupabaseClient): void {
+  runInBackground(
+    supabaseClient.functions.invoke('ingestion-worker', { body: {} })
+      .then(({ error }) => {
+        if (error) console.error('❌ Failed to start ingestion worker:', error);
+      })
+  );
+}
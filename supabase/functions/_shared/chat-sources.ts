@@ -0,0 +1,45 @@
+// Citation sources attached to assistant messages, shared by chat-with-documents and the chat UI.
+// The answer cites sources inline as [n], where n is the source's index.
+
+export interface ChatSource {
+  // 1-based number the answer cites, e.g. [2]
+  index: number;
+  chunk_id: string | null;
+  document_id: string | null;
+  document_name: string;
+  // Section the chunk belongs to, e.g. "3 Pricing > 3.2 Discounts"; absent on sources saved before
+  // chunks recorded their headings
+  heading_path?: string | null;
+  // Start of the chunk text, for display; the full chunk is looked up by chunk_id
+  snippet: string;
+  page_number: number;
+  end_page_number: number;
+  start_offset: number | null;
+  end_offset: number | null;
+  // Cosine similarity to the query, null when the chunk was not ranked by vector search
+  similarity: number | null;
+  // Reranker relevance score (higher is better), null when reranking was skipped or failed; absent on
+  // sources saved before reranking
+  rerank_score?: number | null;
+  // Whether the answer cites this source
+  cited: boolean;
+}
+
+export const CITATION_PATTERN = /\[(\d+)\]/g;
+
+// Drop citation markers that point at no source and report the indices that were cited
+export function validateCitations(text: string, sourceCount: number): { text: string; cited: number[] } {
+  const cited = new Set<number>();
+
+  // The optional leading space goes with a dropped marker, so "text [9]." becomes "text."
+  const cleaned = text.replace(/ ?\[(\d+)\]/g, (marker, digits: string) => {
+    const index = Number(digits);
+    if (index >= 1 && index <= sourceCount) {
+      cited.add(index);
+      return marker;
+    }
+    return '';
+  });
+
+  return { text: cleaned, cited: [...cited].sort((a, b) => a - b) };
+}
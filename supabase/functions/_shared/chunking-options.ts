@@ -0,0 +1,30 @@
+// Chunking parameters an ingestion job can override, with the pipeline defaults
+export interface ChunkingOptions {
+  maxChunkSize: number;
+  overlap: number;
+}
+
+export const DEFAULT_CHUNKING_OPTIONS: ChunkingOptions = {
+  maxChunkSize: 1000,
+  overlap: 200,
+};
+
+const MIN_CHUNK_SIZE = 200;
+const MAX_CHUNK_SIZE = 8000;
+
+// Merge requested options over the defaults, returning an error message when they are out of range
+export function resolveChunkingOptions(
+  requested: Partial<ChunkingOptions> | undefined
+): { options: ChunkingOptions; error?: string } {
+  const options = { ...DEFAULT_CHUNKING_OPTIONS, ...(requested ?? {}) };
+  const { maxChunkSize, overlap } = options;
+
+  if (!Number.isInteger(maxChunkSize) || maxChunkSize < MIN_CHUNK_SIZE || maxChunkSize > MAX_CHUNK_SIZE) {
+    return { options, error: `maxChunkSize must be an integer between ${MIN_CHUNK_SIZE} and ${MAX_CHUNK_SIZE}` };
+  }
+  if (!Number.isInteger(overlap) || overlap < 0 || overlap >= maxChunkSize / 2) {
+    return { options, error: 'overlap must be a non-negative integer smaller than half of maxChunkSize' };
+  }
+
+  return { options };
+}
@@ -0,0 +1,9 @@
+export const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Answer a CORS preflight request; null for every other request
+export function handleCorsPreflight(req: Request): Response | null {
+  return req.method === 'OPTIONS' ? new Response(null, { headers: corsHeaders }) : null;
+}
@@ -0,0 +1,47 @@
+// Document lifecycle shared by the frontend and the edge functions.
+// The documents_status_transition trigger enforces the same rules in the database.
+
+export const DOCUMENT_STATUSES = ['uploading', 'processing', 'completed', 'error'] as const;
+
+export type DocumentStatus = typeof DOCUMENT_STATUSES[number];
+
+// Statuses each status may move to; completed and error documents can be processed again
+export const DOCUMENT_STATUS_TRANSITIONS: Record<DocumentStatus, readonly DocumentStatus[]> = {
+  uploading: ['processing', 'error'],
+  processing: ['completed', 'error'],
+  completed: ['processing'],
+  error: ['processing'],
+};
+
+export function canTransitionDocumentStatus(from: DocumentStatus, to: DocumentStatus): boolean {
+  return from === to || DOCUMENT_STATUS_TRANSITIONS[from].includes(to);
+}
+
+// Structured failure reasons stored in documents.error_code
+export const DOCUMENT_ERROR_CODES = [
+  'UPLOAD_FAILED',
+  'ENQUEUE_FAILED',
+  'DOWNLOAD_FAILED',
+  'UNSUPPORTED_TYPE',
+  'EXTRACTION_FAILED',
+  'NO_TEXT',
+  'EMBEDDING_FAILED',
+  'STORAGE_FAILED',
+  'PROCESSING_INTERRUPTED',
+  'UNKNOWN',
+] as const;
+
+export type DocumentErrorCode = typeof DOCUMENT_ERROR_CODES[number];
+
+export const DOCUMENT_ERROR_LABELS: Record<DocumentErrorCode, string> = {
+  UPLOAD_FAILED: 'Upload failed',
+  ENQUEUE_FAILED: 'Could not start processing',
+  DOWNLOAD_FAILED: 'File could not be read',
+  UNSUPPORTED_TYPE: 'Unsupported file type',
+  EXTRACTION_FAILED: 'Text extraction failed',
+  NO_TEXT: 'No readable text',
+  EMBEDDING_FAILED: 'Embedding failed',
+  STORAGE_FAILED: 'Saving chunks failed',
+  PROCESSING_INTERRUPTED: 'Processing interrupted',
+  UNKNOWN: 'Processing failed',
+};
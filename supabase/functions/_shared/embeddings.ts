@@ -0,0 +1,162 @@
+// Embedding models, shared by ingestion and chat so documents and queries are embedded the same way.
+// Every stored chunk records the id of the model that embedded it (e.g. "gemini/embedding-001"),
+// and searches only compare a query with chunks embedded by the same model.
+//
+// EMBEDDING_MODEL picks the model new documents are embedded with (default gemini/embedding-001).
+// EMBEDDING_MODELS adds or overrides models, keyed by id, for example:
+//   {"ollama/nomic-embed-text": {"type": "openai-compatible", "baseUrl": "http://localhost:11434/v1",
+//                                "model": "nomic-embed-text", "dimensions": 768}}
+
+import { retryWithBackoff } from './retry.ts';
+import { getBaseUrl, postJSON } from './upstream.ts';
+
+export type EmbeddingProviderType = 'gemini' | 'openai' | 'openai-compatible';
+
+export interface EmbeddingModelConfig {
+  type: EmbeddingProviderType;
+  model: string;
+  dimensions: number;
+  // Required for openai-compatible servers, optional override for the hosted APIs
+  baseUrl?: string;
+  // Secret holding the API key; local servers usually need none
+  apiKeyEnv?: string;
+  // Texts sent per embedding request
+  batchSize?: number;
+  maxRetries?: number;
+}
+
+export interface EmbeddingProvider {
+  // Stable model id stored on every chunk
+  id: string;
+  dimensions: number;
+  batchSize: number;
+  // One embedding per text, in order
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+export const DEFAULT_EMBEDDING_MODEL = 'gemini/embedding-001';
+
+const BUILT_IN_MODELS: Record<string, EmbeddingModelConfig> = {
+  'gemini/embedding-001': { type: 'gemini', model: 'embedding-001', dimensions: 768 },
+  'gemini/text-embedding-004': { type: 'gemini', model: 'text-embedding-004', dimensions: 768 },
+  'openai/text-embedding-3-small': { type: 'openai', model: 'text-embedding-3-small', dimensions: 1536 },
+  'openai/text-embedding-3-large': { type: 'openai', model: 'text-embedding-3-large', dimensions: 3072 },
+};
+
+// API key secret used when a model config does not name one
+const DEFAULT_API_KEY_ENV: Record<EmbeddingProviderType, string | undefined> = {
+  'gemini': 'GOOGLE_GEMINI_API_KEY',
+  'openai': 'OPENAI_API_KEY',
+  'openai-compatible': undefined,
+};
+
+// Gemini accepts at most 100 requests per batchEmbedContents call
+function createGeminiEmbedder(config: EmbeddingModelConfig, apiKey: string) {
+  const baseUrl = getBaseUrl('gemini', config.baseUrl);
+
+  return async (texts: string[]): Promise<number[][]> => {
+    const response = await postJSON(
+      'Gemini embeddings',
+      `${baseUrl}/models/${config.model}:batchEmbedContents?key=${apiKey}`,
+      {},
+      {
+        requests: texts.map(text => ({
+          model: `models/${config.model}`,
+          content: { parts: [{ text }] }
+        }))
+      }
+    );
+
+    const data = await response.json();
+    return (data.embeddings || []).map((embedding: { values: number[] }) => embedding.values);
+  };
+}
+
+// OpenAI and every server that speaks its embeddings API (Ollama, llama.cpp, vLLM, ...)
+function createOpenAIEmbedder(config: EmbeddingModelConfig, apiKey: string | undefined) {
+  const baseUrl = getBaseUrl('openai', config.baseUrl);
+
+  return async (texts: string[]): Promise<number[][]> => {
+    const response = await postJSON(
+      'OpenAI embeddings',
+      `${baseUrl}/embeddings`,
+      apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {},
+      {
+        model: config.model,
+        input: texts,
+        // Only the text-embedding-3 models can shorten their vectors
+        ...(config.type === 'openai' && config.model.startsWith('text-embedding-3') && { dimensions: config.dimensions })
+      }
+    );
+
+    const data = await response.json();
+    return [...(data.data || [])]
+      .sort((a: { index: number }, b: { index: number }) => a.index - b.index)
+      .map((item: { embedding: number[] }) => item.embedding);
+  };
+}
+
+function loadModelConfigs(): Record<string, EmbeddingModelConfig> {
+  const configured = Deno.env.get('EMBEDDING_MODELS');
+  if (!configured) return BUILT_IN_MODELS;
+
+  const models = JSON.parse(configured);
+  if (!models || typeof models !== 'object' || Array.isArray(models)) {
+    throw new Error('EMBEDDING_MODELS must be a JSON object of model configs keyed by model id');
+  }
+  return { ...BUILT_IN_MODELS, ...models };
+}
+
+// The model new documents are embedded with
+export function getDefaultEmbeddingModel(): string {
+  return Deno.env.get('EMBEDDING_MODEL') || DEFAULT_EMBEDDING_MODEL;
+}
+
+// Build the provider for a model id, or explain why it cannot be used
+export function getEmbeddingProvider(id: string): EmbeddingProvider | string {
+  const config = loadModelConfigs()[id];
+  if (!config) return `unknown embedding model "${id}"`;
+  if (!Number.isInteger(config.dimensions) || config.dimensions <= 0) {
+    return `embedding model "${id}" needs a positive integer "dimensions"`;
+  }
+
+  const apiKeyEnv = config.apiKeyEnv ?? DEFAULT_API_KEY_ENV[config.type];
+  const apiKey = apiKeyEnv ? Deno.env.get(apiKeyEnv) : undefined;
+
+  let embedTexts: (texts: string[]) => Promise<number[][]>;
+  switch (config.type) {
+    case 'gemini':
+      if (!apiKey) return `${apiKeyEnv} is not set`;
+      embedTexts = createGeminiEmbedder(config, apiKey);
+      break;
+    case 'openai':
+      if (!apiKey) return `${apiKeyEnv} is not set`;
+      embedTexts = createOpenAIEmbedder(config, apiKey);
+      break;
+    case 'openai-compatible':
+      if (!config.baseUrl) return 'baseUrl is required';
+      embedTexts = createOpenAIEmbedder(config, apiKey);
+      break;
+    default:
+      return `unknown embedding provider type "${(config as EmbeddingModelConfig).type}"`;
+  }
+
+  return {
+    id,
+    dimensions: config.dimensions,
+    batchSize: config.batchSize ?? 100,
+    async embed(texts) {
+      const embeddings = await retryWithBackoff(() => embedTexts(texts), config.maxRetries ?? 3, 1000);
+
+      // A dimension mismatch would make the vectors incomparable with the rest of the corpus
+      if (embeddings.length !== texts.length || embeddings.some(values => values?.length !== config.dimensions)) {
+        throw new Error(
+          `Embedding model ${id} returned ${embeddings.length} embeddings for ${texts.length} texts ` +
+          `(expected ${config.dimensions} dimensions each)`
+        );
+      }
+
+      return embeddings;
+    }
+  };
+}
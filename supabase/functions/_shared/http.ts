@@ -0,0 +1,80 @@
+import { corsHeaders } from './cors.ts';
+
+export type ErrorCode =
+  | 'BAD_REQUEST'
+  | 'UNAUTHORIZED'
+  | 'NOT_FOUND'
+  | 'CONFLICT'
+  | 'UPSTREAM_ERROR'
+  | 'UPSTREAM_TIMEOUT'
+  | 'INTERNAL_ERROR';
+
+// Body of every error response: { "error": { "code": "NOT_FOUND", "message": "Document not found" } }
+export interface ErrorEnvelope {
+  error: {
+    code: ErrorCode;
+    message: string;
+    details?: Record<string, unknown>;
+  };
+}
+
+// An error that maps onto an HTTP response. Its message and details are sent to the caller.
+export class HttpError extends Error {
+  constructor(
+    public status: number,
+    public code: ErrorCode,
+    message: string,
+    public details?: Record<string, unknown>
+  ) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+export const badRequest = (message: string, details?: Record<string, unknown>) =>
+  new HttpError(400, 'BAD_REQUEST', message, details);
+export const unauthorized = (message = 'Unauthorized') => new HttpError(401, 'UNAUTHORIZED', message);
+export const notFound = (message: string) => new HttpError(404, 'NOT_FOUND', message);
+export const conflict = (message: string, details?: Record<string, unknown>) =>
+  new HttpError(409, 'CONFLICT', message, details);
+
+// Parse the request body, answering 400 when it is not JSON
+export async function readJsonBody<T>(req: Request): Promise<T> {
+  try {
+    return await req.json();
+  } catch {
+    throw badRequest('Request body must be JSON');
+  }
+}
+
+export function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+// Envelope for any thrown value. Unexpected errors are reported without their message or stack,
+// which may carry SQL, upstream responses or secrets.
+export function toErrorEnvelope(error: unknown): ErrorEnvelope {
+  if (error instanceof HttpError) {
+    return {
+      error: {
+        code: error.code,
+        message: error.message,
+        ...(error.details && { details: error.details })
+      }
+    };
+  }
+
+  return { error: { code: 'INTERNAL_ERROR', message: 'An unexpected error occurred' } };
+}
+
+export function errorResponse(error: unknown): Response {
+  const status = error instanceof HttpError ? error.status : 500;
+  if (status >= 500) {
+    console.error('❌ Request failed:', error);
+  }
+
+  return jsonResponse(toErrorEnvelope(error), status);
+}
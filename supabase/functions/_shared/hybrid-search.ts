@@ -0,0 +1,135 @@
+// Hybrid search over a user's completed documents, shared by chat-with-documents and search-documents.
+// The query is embedded with every model the searched documents were embedded with, since chunks are
+// only compared with a query embedding from their own model, and the per-model results are merged.
+
+import { getEmbeddingProvider } from './embeddings.ts';
+import type { SupabaseClient } from './supabase.ts';
+
+const DEFAULT_MATCH_THRESHOLD = 0.5;
+
+// Minimum cosine similarity for a chunk to count as a semantic match
+const MATCH_THRESHOLD = loadMatchThreshold();
+
+function loadMatchThreshold(): number {
+  const configured = Deno.env.get('SEARCH_MATCH_THRESHOLD');
+  if (!configured?.trim()) return DEFAULT_MATCH_THRESHOLD;
+
+  const threshold = Number(configured);
+  if (!Number.isFinite(threshold) || threshold < 0 || threshold > 1) {
+    console.warn(`⚠️ SEARCH_MATCH_THRESHOLD "${configured}" is not a number from 0 to 1, using ${DEFAULT_MATCH_THRESHOLD}`);
+    return DEFAULT_MATCH_THRESHOLD;
+  }
+  return threshold;
+}
+
+export interface HybridSearchOptions {
+  query: string;
+  userId: string;
+  // Documents to search; null searches all of the user's documents
+  documentIds: string[] | null;
+  matchCount: number;
+  fullTextWeight?: number;
+  semanticWeight?: number;
+}
+
+// A row of hybrid_match_documents
+export interface HybridMatch {
+  id: string;
+  document_id: string;
+  content: string;
+  page_number: number;
+  end_page_number: number | null;
+  start_offset: number | null;
+  end_offset: number | null;
+  chunk_index: number;
+  metadata: { heading_path?: string };
+  similarity: number | null;
+  keyword_rank: number;
+  rrf_score: number;
+  documents: { id: string; name: string; user_id: string };
+}
+
+// Embedding models of the documents being searched; a corpus spans two models while it is re-embedded
+async function loadSearchEmbeddingModels(
+  supabaseClient: SupabaseClient,
+  userId: string,
+  documentIds: string[] | null
+): Promise<string[]> {
+  let query = supabaseClient
+    .from('documents')
+    .select('embedding_model')
+    .eq('user_id', userId)
+    .eq('status', 'completed')
+    .not('embedding_model', 'is', null);
+
+  if (documentIds) {
+    query = query.in('id', documentIds);
+  }
+
+  const { data, error } = await query;
+  if (error) throw error;
+
+  return [...new Set((data || []).map((row: { embedding_model: string }) => row.embedding_model))];
+}
+
+// Combine the hybrid results of each embedding model. Keyword matches come back from every run,
+// so each chunk keeps its best score.
+function mergeSearchResults<T extends { id: string; rrf_score: number }>(resultSets: T[][], limit: number): T[] {
+  const best = new Map<string, T>();
+
+  for (const result of resultSets.flat()) {
+    const current = best.get(result.id);
+    if (!current || result.rrf_score > current.rrf_score) {
+      best.set(result.id, result);
+    }
+  }
+
+  // Ties are broken by id so that repeated searches page through the same order
+  return [...best.values()]
+    .sort((a, b) => b.rrf_score - a.rrf_score || a.id.localeCompare(b.id))
+    .slice(0, limit);
+}
+
+// Keyword and vector rankings fused with reciprocal rank fusion, best first. Embedding failures throw;
+// a failed search is returned as `error` so callers can fall back.
+export async function hybridSearch(
+  supabaseClient: SupabaseClient,
+  { query, userId, documentIds, matchCount, fullTextWeight = 1.0, semanticWeight = 1.0 }: HybridSearchOptions
+): Promise<{ data: HybridMatch[]; error: unknown }> {
+  const queryEmbeddings: { model: string | null; embedding: number[] | null }[] = [];
+  for (const model of await loadSearchEmbeddingModels(supabaseClient, userId, documentIds)) {
+    const embeddingProvider = getEmbeddingProvider(model);
+    if (typeof embeddingProvider === 'string') {
+      console.log(`⚠️ Skipping semantic search for ${model}: ${embeddingProvider}`);
+      continue;
+    }
+
+    console.log('🔄 Generating embedding for query with', model);
+    const [embedding] = await embeddingProvider.embed([query]);
+    queryEmbeddings.push({ model, embedding });
+    console.log('✅ Generated embedding with', embedding.length, 'dimensions');
+  }
+
+  // Without any usable embedding model the search falls back to keywords only
+  if (queryEmbeddings.length === 0) {
+    queryEmbeddings.push({ model: null, embedding: null });
+  }
+
+  console.log('🔍 Searching for relevant documents...', { fullTextWeight, semanticWeight, documentIds });
+  const searches = await Promise.all(queryEmbeddings.map(({ model, embedding }) =>
+    supabaseClient.rpc('hybrid_match_documents', {
+      query_text: query,
+      query_embedding: embedding,
+      match_threshold: MATCH_THRESHOLD,
+      match_count: matchCount,
+      user_id: userId,
+      full_text_weight: fullTextWeight,
+      semantic_weight: semanticWeight,
+      document_ids: documentIds,
+      embedding_model: model
+    })
+  ));
+
+  const error = searches.find(search => search.error)?.error ?? null;
+  return { data: mergeSearchResults(searches.map(search => search.data || []), matchCount), error };
+}
@@ -0,0 +1,339 @@
+// LLM providers for chat generation. The ordered fallback chain comes from the LLM_PROVIDERS
+// secret, for example:
+//   [{"type": "openai-compatible", "name": "Ollama", "baseUrl": "http://localhost:11434/v1", "model": "llama3.1",
+//     "contextWindow": 8192},
+//    {"type": "gemini", "model": "gemini-1.5-flash", "temperature": 0.3}]
+// Without it, Gemini and then OpenAI are used when their API keys are set.
+
+import { retryWithBackoff } from './retry.ts';
+import { getBaseUrl, postJSON } from './upstream.ts';
+
+export type ProviderType = 'gemini' | 'openai' | 'anthropic' | 'openai-compatible';
+
+export interface ProviderConfig {
+  type: ProviderType;
+  // Label recorded on stored answers; defaults to the provider's display name
+  name?: string;
+  model?: string;
+  temperature?: number;
+  maxTokens?: number;
+  // Context window of the model in tokens, used to size the prompt
+  contextWindow?: number;
+  // Required for openai-compatible servers, optional override for the hosted APIs
+  baseUrl?: string;
+  // Secret holding the API key; local servers usually need none
+  apiKeyEnv?: string;
+  maxRetries?: number;
+}
+
+export interface ChatProvider {
+  name: string;
+  model: string;
+  contextWindow: number;
+  // Tokens kept free for the answer
+  maxOutputTokens: number;
+  // Resolves to the full answer; when onToken is given, tokens are forwarded as they arrive
+  generate(prompt: string, onToken?: (text: string) => void): Promise<string>;
+}
+
+export interface GenerationResult {
+  response: string;
+  provider: string;
+  model: string;
+}
+
+const SYSTEM_PROMPT = 'You are a helpful assistant that answers questions based on provided document context.';
+
+// Context windows (tokens) assumed when a provider config does not set `contextWindow`
+const DEFAULT_CONTEXT_WINDOWS: Record<ProviderType, number> = {
+  'gemini': 1000000,
+  'openai': 128000,
+  'anthropic': 200000,
+  // Local models are often served with small windows
+  'openai-compatible': 8192,
+};
+
+const DEFAULT_MAX_OUTPUT_TOKENS = 1500;
+
+// Yield the `data:` payloads of an upstream Server-Sent Events response
+async function* readEventData(response: Response): AsyncGenerator<string> {
+  const reader = response.body!.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) break;
+
+    buffer += value;
+    const events = buffer.split(/\r?\n\r?\n/);
+    buffer = events.pop() ?? '';
+
+    for (const event of events) {
+      const data = event
+        .split(/\r?\n/)
+        .filter(line => line.startsWith('data:'))
+        .map(line => line.slice(5).trimStart())
+        .join('\n');
+      if (data) yield data;
+    }
+  }
+}
+
+// The wire format of one provider API
+interface ProviderProtocol<TBody> {
+  request: (prompt: string, stream: boolean) => Promise<Response>;
+  // Answer text of a non-streaming response
+  readAnswer: (body: TBody) => string | undefined;
+  // Token text of one streamed event; null marks the end of the stream
+  readToken: (data: string) => string | undefined | null;
+}
+
+function createProvider<TBody>(
+  config: ProviderConfig,
+  name: string,
+  model: string,
+  maxRetries: number,
+  protocol: ProviderProtocol<TBody>
+): ChatProvider {
+  return {
+    name,
+    model,
+    contextWindow: config.contextWindow ?? DEFAULT_CONTEXT_WINDOWS[config.type],
+    maxOutputTokens: config.maxTokens ?? DEFAULT_MAX_OUTPUT_TOKENS,
+    async generate(prompt, onToken) {
+      if (!onToken) {
+        return await retryWithBackoff(async () => {
+          console.log(`🤖 Calling ${name} (${model})...`);
+          const response = await protocol.request(prompt, false);
+          const aiResponse = protocol.readAnswer(await response.json() as TBody);
+
+          if (!aiResponse) {
+            throw new Error(`No response generated from ${name}`);
+          }
+
+          console.log(`✅ Generated ${name} response, length:`, aiResponse.length);
+          return aiResponse;
+        }, maxRetries, 1000);
+      }
+
+      // Only the initial request is retried; tokens are forwarded as they arrive
+      const response = await retryWithBackoff(() => {
+        console.log(`🤖 Streaming from ${name} (${model})...`);
+        return protocol.request(prompt, true);
+      }, maxRetries, 1000);
+
+      let aiResponse = '';
+      for await (const data of readEventData(response)) {
+        const text = protocol.readToken(data);
+        if (text === null) break;
+        if (text) {
+          aiResponse += text;
+          onToken(text);
+        }
+      }
+
+      if (!aiResponse) {
+        throw new Error(`No response generated from ${name}`);
+      }
+
+      console.log(`✅ Streamed ${name} response, length:`, aiResponse.length);
+      return aiResponse;
+    }
+  };
+}
+
+interface GeminiResponse {
+  candidates?: { content?: { parts?: { text?: string }[] } }[];
+}
+
+function createGeminiProvider(config: ProviderConfig, apiKey: string): ChatProvider {
+  const name = config.name ?? 'Gemini';
+  const model = config.model ?? 'gemini-1.5-flash';
+  const baseUrl = getBaseUrl('gemini', config.baseUrl);
+  const generationConfig = {
+    ...(config.temperature !== undefined && { temperature: config.temperature }),
+    ...(config.maxTokens !== undefined && { maxOutputTokens: config.maxTokens })
+  };
+
+  return createProvider<GeminiResponse>(config, name, model, config.maxRetries ?? 3, {
+    request: (prompt, stream) => postJSON(
+      name,
+      stream
+        ? `${baseUrl}/models/${model}:streamGenerateContent?alt=sse&key=${apiKey}`
+        : `${baseUrl}/models/${model}:generateContent?key=${apiKey}`,
+      {},
+      { contents: [{ parts: [{ text: prompt }] }], generationConfig }
+    ),
+    readAnswer: (body) => body.candidates?.[0]?.content?.parts?.[0]?.text,
+    readToken: (data) => (JSON.parse(data) as GeminiResponse).candidates?.[0]?.content?.parts?.[0]?.text
+  });
+}
+
+interface OpenAIResponse {
+  choices?: { message?: { content?: string }; delta?: { content?: string } }[];
+}
+
+// OpenAI and every server that speaks its chat completions API (Ollama, llama.cpp, vLLM, ...)
+function createOpenAIProvider(config: ProviderConfig, apiKey: string | undefined): ChatProvider {
+  const name = config.name ?? (config.type === 'openai' ? 'OpenAI' : 'OpenAI-compatible');
+  const model = config.model ?? 'gpt-4o-mini';
+  const baseUrl = getBaseUrl('openai', config.baseUrl);
+
+  return createProvider<OpenAIResponse>(config, name, model, config.maxRetries ?? 2, {
+    request: (prompt, stream) => postJSON(
+      name,
+      `${baseUrl}/chat/completions`,
+      apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {},
+      {
+        model,
+        messages: [
+          { role: 'system', content: SYSTEM_PROMPT },
+          { role: 'user', content: prompt }
+        ],
+        temperature: config.temperature ?? 0.7,
+        max_tokens: config.maxTokens ?? DEFAULT_MAX_OUTPUT_TOKENS,
+        stream
+      }
+    ),
+    readAnswer: (body) => body.choices?.[0]?.message?.content,
+    readToken: (data) => data === '[DONE]'
+      ? null
+      : (JSON.parse(data) as OpenAIResponse).choices?.[0]?.delta?.content
+  });
+}
+
+interface AnthropicResponse {
+  content?: { type: string; text?: string }[];
+}
+
+interface AnthropicStreamEvent {
+  type: string;
+  delta?: { type: string; text?: string };
+}
+
+function createAnthropicProvider(config: ProviderConfig, apiKey: string): ChatProvider {
+  const name = config.name ?? 'Anthropic';
+  const model = config.model ?? 'claude-3-5-haiku-latest';
+  const baseUrl = getBaseUrl('anthropic', config.baseUrl);
+
+  return createProvider<AnthropicResponse>(config, name, model, config.maxRetries ?? 2, {
+    request: (prompt, stream) => postJSON(
+      name,
+      `${baseUrl}/messages`,
+      { 'x-api-key': apiKey, 'anthropic-version': '2023-06-01' },
+      {
+        model,
+        system: SYSTEM_PROMPT,
+        messages: [{ role: 'user', content: prompt }],
+        temperature: config.temperature ?? 0.7,
+        max_tokens: config.maxTokens ?? DEFAULT_MAX_OUTPUT_TOKENS,
+        stream
+      }
+    ),
+    readAnswer: (body) => body.content?.filter(block => block.type === 'text').map(block => block.text).join(''),
+    readToken: (data) => {
+      const event = JSON.parse(data) as AnthropicStreamEvent;
+      if (event.type === 'message_stop') return null;
+      return event.type === 'content_block_delta' ? event.delta?.text : undefined;
+    }
+  });
+}
+
+// API key secret used when a provider config does not name one
+const DEFAULT_API_KEY_ENV: Record<ProviderType, string | undefined> = {
+  'gemini': 'GOOGLE_GEMINI_API_KEY',
+  'openai': 'OPENAI_API_KEY',
+  'anthropic': 'ANTHROPIC_API_KEY',
+  'openai-compatible': undefined,
+};
+
+// Build a provider from its config, or explain why it cannot be used
+function createChatProvider(config: ProviderConfig): ChatProvider | string {
+  const apiKeyEnv = config.apiKeyEnv ?? DEFAULT_API_KEY_ENV[config.type];
+  const apiKey = apiKeyEnv ? Deno.env.get(apiKeyEnv) : undefined;
+
+  switch (config.type) {
+    case 'gemini':
+      return apiKey ? createGeminiProvider(config, apiKey) : `${apiKeyEnv} is not set`;
+    case 'openai':
+      return apiKey ? createOpenAIProvider(config, apiKey) : `${apiKeyEnv} is not set`;
+    case 'anthropic':
+      return apiKey ? createAnthropicProvider(config, apiKey) : `${apiKeyEnv} is not set`;
+    case 'openai-compatible':
+      if (!config.baseUrl || !config.model) return 'baseUrl and model are required';
+      return createOpenAIProvider(config, apiKey);
+    default:
+      return `unknown provider type "${(config as ProviderConfig).type}"`;
+  }
+}
+
+function loadProviderConfigs(): ProviderConfig[] {
+  const configured = Deno.env.get('LLM_PROVIDERS');
+  if (!configured) {
+    return [{ type: 'gemini' }, { type: 'openai' }];
+  }
+
+  const configs = JSON.parse(configured);
+  if (!Array.isArray(configs)) {
+    throw new Error('LLM_PROVIDERS must be a JSON array of provider configs');
+  }
+  return configs as ProviderConfig[];
+}
+
+// The ordered fallback chain (LLM_PROVIDERS unless `configs` are given), skipping providers that are
+// not configured
+export function getProviderChain(configs: ProviderConfig[] = loadProviderConfigs()): ChatProvider[] {
+  const providers: ChatProvider[] = [];
+
+  for (const config of configs) {
+    const provider = createChatProvider(config);
+    if (typeof provider === 'string') {
+      console.log(`⚠️ Skipping ${config.name ?? config.type} provider: ${provider}`);
+    } else {
+      providers.push(provider);
+    }
+  }
+
+  return providers;
+}
+
+// Try each provider in order. A streamed answer cannot be swapped once tokens reached the client,
+// so a provider that fails mid-stream ends the chain.
+export async function generateWithFallback(
+  providers: ChatProvider[],
+  prompt: string,
+  onToken?: (text: string) => void
+): Promise<GenerationResult> {
+  if (providers.length === 0) {
+    throw new Error('No AI providers configured');
+  }
+
+  let lastError: Error | undefined;
+
+  for (const [position, provider] of providers.entries()) {
+    let streamedTokens = false;
+    const forwardToken = onToken && ((text: string) => {
+      streamedTokens = true;
+      onToken(text);
+    });
+
+    try {
+      const response = await provider.generate(prompt, forwardToken);
+      return {
+        response,
+        provider: position === 0 ? provider.name : `${provider.name} (fallback)`,
+        model: provider.model
+      };
+    } catch (error) {
+      console.error(`❌ ${provider.name} failed:`, error.message);
+      lastError = error as Error;
+
+      if (streamedTokens) throw error;
+      if (position < providers.length - 1) {
+        console.log(`🔄 Trying ${providers[position + 1].name} as fallback...`);
+      }
+    }
+  }
+
+  throw lastError!;
+}
@@ -0,0 +1,141 @@
+// Rerankers reorder the chunks retrieved by search by their relevance to the query, before the best
+// of them are packed into the prompt. The RERANKER secret picks the strategy, a JSON object:
+//   {"type": "cross-encoder", "baseUrl": "http://host.docker.internal:7997", "model": "BAAI/bge-reranker-base"}
+//   {"type": "llm"}   scores passages with the chat provider chain (the default)
+//   {"type": "none"}  keeps the search order
+// Cross-encoder servers must offer the Cohere/Jina style `POST {baseUrl}/rerank` API (Infinity, vLLM,
+// llama.cpp and most hosted rerankers do).
+
+import { generateWithFallback, getProviderChain } from './llm-providers.ts';
+import { retryWithBackoff } from './retry.ts';
+import { postJSON } from './upstream.ts';
+
+export type RerankerType = 'cross-encoder' | 'llm' | 'none';
+
+export interface RerankerConfig {
+  type: RerankerType;
+  // Required for cross-encoder servers
+  baseUrl?: string;
+  model?: string;
+  // Secret holding the API key; local servers usually need none
+  apiKeyEnv?: string;
+  maxRetries?: number;
+}
+
+export interface Reranker {
+  name: string;
+  // Relevance of each passage to the query, in input order; higher is more relevant
+  score(query: string, passages: string[]): Promise<number[]>;
+}
+
+// Passages are cut to this length in the LLM scoring prompt to keep it small
+const LLM_PASSAGE_CHARS = 600;
+
+function createCrossEncoderReranker(config: RerankerConfig, apiKey: string | undefined): Reranker {
+  const baseUrl = config.baseUrl!.replace(/\/+$/, '');
+
+  return {
+    name: config.model ? `cross-encoder (${config.model})` : 'cross-encoder',
+    async score(query, passages) {
+      const response = await retryWithBackoff(() => postJSON(
+        'Reranker',
+        `${baseUrl}/rerank`,
+        apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {},
+        { ...(config.model && { model: config.model }), query, documents: passages }
+      ), config.maxRetries ?? 1, 500);
+
+      const data = await response.json();
+      const scores: (number | undefined)[] = new Array(passages.length).fill(undefined);
+      for (const result of data.results || []) {
+        scores[result.index] = result.relevance_score;
+      }
+
+      if (scores.some(score => typeof score !== 'number')) {
+        throw new Error('Reranker did not score every passage');
+      }
+      return scores as number[];
+    }
+  };
+}
+
+// Read the JSON array of 0-10 scores the LLM was asked for, scaled to 0-1
+export function parseLLMScores(response: string, count: number): number[] {
+  const array = response.match(/\[[\s\S]*\]/)?.[0];
+  const scores = array ? JSON.parse(array) : null;
+
+  if (!Array.isArray(scores) || scores.length !== count || scores.some(score => typeof score !== 'number')) {
+    throw new Error(`LLM reranker returned no usable scores for ${count} passages`);
+  }
+  return scores.map((score: number) => Math.min(Math.max(score, 0), 10) / 10);
+}
+
+function createLLMReranker(): Reranker {
+  return {
+    name: 'llm',
+    async score(query, passages) {
+      const numbered = passages
+        .map((passage, index) => `[${index + 1}] ${passage.slice(0, LLM_PASSAGE_CHARS)}`)
+        .join('\n\n');
+      const prompt = `Rate how relevant each passage is to the search query, from 0 (unrelated) to 10 (answers it directly).
+Return only a JSON array with one number per passage, in passage order, e.g. [7, 0, 3].
+
+Search query: ${query}
+
+Passages:
+${numbered}
+
+Scores:`;
+
+      const { response } = await generateWithFallback(getProviderChain(), prompt);
+      return parseLLMScores(response, passages.length);
+    }
+  };
+}
+
+// Build the configured reranker, or explain why there is none
+export function getReranker(): Reranker | string {
+  const configured = Deno.env.get('RERANKER');
+  let config: RerankerConfig = { type: 'llm' };
+  if (configured) {
+    try {
+      config = JSON.parse(configured);
+    } catch {
+      return 'RERANKER is not valid JSON';
+    }
+  }
+
+  switch (config.type) {
+    case 'none':
+      return 'disabled by RERANKER';
+    case 'llm':
+      return createLLMReranker();
+    case 'cross-encoder': {
+      if (!config.baseUrl) return 'baseUrl is required';
+      const apiKey = config.apiKeyEnv ? Deno.env.get(config.apiKeyEnv) : undefined;
+      return createCrossEncoderReranker(config, apiKey);
+    }
+    default:
+      return `unknown reranker type "${(config as RerankerConfig).type}"`;
+  }
+}
+
+// Order candidates by reranker score, best first. If reranking fails the search order is kept
+// and the scores are null.
+export async function rerank<T>(
+  reranker: Reranker,
+  query: string,
+  candidates: T[],
+  passage: (candidate: T) => string
+): Promise<(T & { rerank_score: number | null })[]> {
+  if (candidates.length === 0) return [];
+
+  try {
+    const scores = await reranker.score(query, candidates.map(passage));
+    return candidates
+      .map((candidate, index) => ({ ...candidate, rerank_score: scores[index] }))
+      .sort((a, b) => b.rerank_score - a.rerank_score);
+  } catch (error) {
+    console.error(`❌ Reranking with ${reranker.name} failed, keeping the search order:`, error.message);
+    return candidates.map(candidate => ({ ...candidate, rerank_score: null }));
+  }
+}
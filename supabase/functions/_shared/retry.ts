@@ -0,0 +1,29 @@
+import { isRetryableError, UpstreamError } from './upstream.ts';
+
+// Longest Retry-After we are willing to wait for inside a single request
+const MAX_RETRY_AFTER_MS = 10000;
+
+// Retry an upstream call with exponential backoff. Only timeouts, network failures and retryable
+// statuses (see isRetryableError) are retried; a Retry-After header overrides the backoff delay.
+export async function retryWithBackoff<T>(
+  operation: () => Promise<T>,
+  maxRetries: number = 3,
+  baseDelay: number = 1000
+): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await operation();
+    } catch (error) {
+      if (attempt >= maxRetries || !isRetryableError(error)) {
+        throw error;
+      }
+
+      const retryAfter = error instanceof UpstreamError ? error.retryAfterMs : undefined;
+      const delay = retryAfter !== undefined
+        ? Math.min(retryAfter, MAX_RETRY_AFTER_MS)
+        : baseDelay * Math.pow(2, attempt) + Math.random() * baseDelay;
+      console.log(`🔄 Retry attempt ${attempt + 1}/${maxRetries} after ${Math.round(delay)}ms`);
+      await new Promise(resolve => setTimeout(resolve, delay));
+    }
+  }
+}
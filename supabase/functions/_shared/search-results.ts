@@ -0,0 +1,50 @@
+// Request and response of search-documents, shared by the function and the search UI
+
+export interface SearchRequest {
+  query: string;
+  // 1-based page of `pageSize` results
+  page?: number;
+  pageSize?: number;
+  // Filters; omitted ones match every completed document
+  documentIds?: string[];
+  mimeTypes?: string[];
+  // ISO dates bounding when the document was uploaded
+  uploadedAfter?: string;
+  uploadedBefore?: string;
+}
+
+// A range of the snippet to highlight, [start, end) in UTF-16 code units
+export interface HighlightRange {
+  start: number;
+  end: number;
+}
+
+export interface SearchHit {
+  // 1-based position across all pages
+  rank: number;
+  chunk_id: string;
+  document_id: string;
+  document_name: string;
+  mime_type: string;
+  // Section the chunk belongs to, e.g. "3 Pricing > 3.2 Discounts"
+  heading_path: string | null;
+  // Passage around the best keyword match, with the query terms it contains
+  snippet: string;
+  highlights: HighlightRange[];
+  page_number: number;
+  end_page_number: number;
+  start_offset: number | null;
+  end_offset: number | null;
+  // Reciprocal rank fusion score of the keyword and vector rankings (higher is better)
+  score: number;
+  // Cosine similarity to the query, null when the chunk was only found by keywords
+  similarity: number | null;
+}
+
+export interface SearchResponse {
+  query: string;
+  page: number;
+  pageSize: number;
+  hasMore: boolean;
+  results: SearchHit[];
+}
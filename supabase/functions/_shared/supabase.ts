@@ -0,0 +1,11 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+export type SupabaseClient = ReturnType<typeof createClient>;
+
+// Service-role client for edge functions: it bypasses RLS, so callers must scope queries to the request's user
+export function createServiceClient(): SupabaseClient {
+  return createClient(
+    Deno.env.get('SUPABASE_URL') ?? '',
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+  );
+}
@@ -0,0 +1,16 @@
+// Token counting shared by ingestion (document_chunks.token_count) and chat context packing.
+// Counts use OpenAI's cl100k_base encoding; the tokenizers of other providers differ by a few
+// percent, which callers leave a margin for.
+import { Tiktoken } from 'https://esm.sh/js-tiktoken@1.0.21/lite';
+import cl100kBase from 'https://esm.sh/js-tiktoken@1.0.21/ranks/cl100k_base';
+
+let encoder: Tiktoken | undefined;
+
+export function countTokens(text: string): number {
+  if (!text) return 0;
+
+  // Built on first use: loading the ranks takes a moment
+  encoder ??= new Tiktoken(cl100kBase);
+  // Special-token markers inside documents are counted as plain text instead of throwing
+  return encoder.encode(text, [], []).length;
+}
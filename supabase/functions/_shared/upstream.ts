@@ -0,0 +1,110 @@
+import { HttpError } from './http.ts';
+
+// How long to wait for an upstream API to start responding
+const DEFAULT_TIMEOUT_MS = Number(Deno.env.get('UPSTREAM_TIMEOUT_MS') ?? 30000);
+
+// Public API roots, overridable with GEMINI_BASE_URL, OPENAI_BASE_URL and ANTHROPIC_BASE_URL
+// (e.g. to point at a proxy or at the mock server used by the tests)
+const DEFAULT_BASE_URLS = {
+  gemini: 'https://generativelanguage.googleapis.com/v1beta',
+  openai: 'https://api.openai.com/v1',
+  anthropic: 'https://api.anthropic.com/v1',
+};
+
+// Statuses worth retrying: timeouts, rate limits and transient server errors
+const RETRYABLE_STATUSES = [408, 429, 500, 502, 503, 504];
+
+// A failed call to an external API (LLM, embeddings). `upstreamStatus` is null when no response arrived.
+export class UpstreamError extends HttpError {
+  constructor(
+    public service: string,
+    public upstreamStatus: number | null,
+    message: string,
+    public retryAfterMs?: number
+  ) {
+    super(502, 'UPSTREAM_ERROR', message);
+    this.name = 'UpstreamError';
+  }
+}
+
+export class UpstreamTimeoutError extends UpstreamError {
+  constructor(service: string, timeoutMs: number) {
+    super(service, null, `${service} did not respond within ${timeoutMs}ms`);
+    this.name = 'UpstreamTimeoutError';
+    this.status = 504;
+    this.code = 'UPSTREAM_TIMEOUT';
+  }
+}
+
+// API root for a service: a per-provider `baseUrl` wins over the environment, which wins over the default
+export function getBaseUrl(service: keyof typeof DEFAULT_BASE_URLS, override?: string): string {
+  const configured = override ?? Deno.env.get(`${service.toUpperCase()}_BASE_URL`) ?? DEFAULT_BASE_URLS[service];
+  return configured.replace(/\/$/, '');
+}
+
+export function isRetryableError(error: unknown): boolean {
+  if (!(error instanceof UpstreamError)) return false;
+  return error.upstreamStatus === null || RETRYABLE_STATUSES.includes(error.upstreamStatus);
+}
+
+// Retry-After is either a number of seconds or an HTTP date
+function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) return undefined;
+
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) return seconds * 1000;
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+// fetch() that gives up when the response headers have not arrived within `timeoutMs`
+export async function fetchWithTimeout(
+  service: string,
+  url: string,
+  init: RequestInit,
+  timeoutMs: number = DEFAULT_TIMEOUT_MS
+): Promise<Response> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+
+  try {
+    return await fetch(url, { ...init, signal: controller.signal });
+  } catch (error) {
+    if (controller.signal.aborted) {
+      throw new UpstreamTimeoutError(service, timeoutMs);
+    }
+    throw new UpstreamError(service, null, `${service} request failed: ${error instanceof Error ? error.message : error}`);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+// POST a JSON request; a non-2xx response becomes an UpstreamError carrying its status
+export async function postJSON(
+  service: string,
+  url: string,
+  headers: Record<string, string>,
+  body: unknown,
+  timeoutMs?: number
+): Promise<Response> {
+  const response = await fetchWithTimeout(service, url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify(body)
+  }, timeoutMs);
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    console.error(`❌ ${service} API error (${response.status}):`, errorText);
+
+    throw new UpstreamError(
+      service,
+      response.status,
+      `${service} API failed with status ${response.status}`,
+      parseRetryAfter(response.headers.get('Retry-After'))
+    );
+  }
+
+  return response;
+}
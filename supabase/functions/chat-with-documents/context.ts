@@ -0,0 +1,175 @@
+// Context building for answers: diversify the ranked candidates with maximal marginal relevance (MMR),
+// pack the best of them into the token budget and optionally widen each hit with its neighbouring chunks.
+
+export interface ContextChunk {
+  id: string;
+  document_id: string;
+  chunk_index: number;
+  content: string;
+  page_number: number;
+  end_page_number?: number | null;
+  start_offset?: number | null;
+  end_offset?: number | null;
+}
+
+// Consecutive chunks overlap by whole sentences, so shorter matches are coincidences
+const MIN_MERGE_OVERLAP = 20;
+
+function wordSet(text: string): Set<string> {
+  return new Set(text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []);
+}
+
+// Jaccard similarity of the two texts' words; overlapping chunks of one page score high
+export function textSimilarity(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0;
+
+  let shared = 0;
+  for (const word of a) {
+    if (b.has(word)) shared++;
+  }
+  return shared / (a.size + b.size - shared);
+}
+
+// Relevance in [0, 1]: min-max scaled rerank scores, or the rank when the candidates were not reranked
+function relevanceScores(ranked: { rerank_score?: number | null }[]): number[] {
+  const scores = ranked.map(candidate => candidate.rerank_score);
+
+  if (scores.every(score => typeof score === 'number')) {
+    const min = Math.min(...scores as number[]);
+    const max = Math.max(...scores as number[]);
+    return scores.map(score => max > min ? ((score as number) - min) / (max - min) : 1);
+  }
+  return ranked.map((_, index) => 1 - index / ranked.length);
+}
+
+// Reorder candidates with MMR: each pick maximizes lambda * relevance - (1 - lambda) * its highest
+// similarity to the picks before it. lambda = 1 keeps the relevance order.
+export function diversify<T extends { content: string; rerank_score?: number | null }>(ranked: T[], lambda: number): T[] {
+  const relevance = relevanceScores(ranked);
+  const words = ranked.map(candidate => wordSet(candidate.content));
+  const maxSimilarity = new Array(ranked.length).fill(0);
+  const remaining = new Set(ranked.keys());
+  const picked: T[] = [];
+
+  while (remaining.size > 0) {
+    let best = -1;
+    let bestScore = -Infinity;
+    for (const index of remaining) {
+      const score = lambda * relevance[index] - (1 - lambda) * maxSimilarity[index];
+      if (score > bestScore) {
+        best = index;
+        bestScore = score;
+      }
+    }
+
+    remaining.delete(best);
+    picked.push(ranked[best]);
+    for (const index of remaining) {
+      maxSimilarity[index] = Math.max(maxSimilarity[index], textSimilarity(words[index], words[best]));
+    }
+  }
+
+  return picked;
+}
+
+export interface PackedContext<T> {
+  chunks: T[];
+  usedTokens: number;
+  // Chunks that would have been used but did not fit the budget, with their size
+  dropped: { chunk: T; tokens: number }[];
+}
+
+// Take chunks in ranked order until `maxChunks` are packed, skipping any that would overflow
+// `tokenBudget`; a smaller chunk further down may still fit.
+export function packContext<T>(
+  ranked: T[],
+  maxChunks: number,
+  tokenBudget: number,
+  countTokens: (chunk: T) => number
+): PackedContext<T> {
+  const packed: PackedContext<T> = { chunks: [], usedTokens: 0, dropped: [] };
+
+  for (const chunk of ranked) {
+    if (packed.chunks.length >= maxChunks) break;
+
+    const tokens = countTokens(chunk);
+    if (packed.usedTokens + tokens > tokenBudget) {
+      packed.dropped.push({ chunk, tokens });
+      continue;
+    }
+    packed.chunks.push(chunk);
+    packed.usedTokens += tokens;
+  }
+
+  return packed;
+}
+
+// Join consecutive chunks, dropping the text the second repeats from the end of the first
+export function mergeOverlapping(first: string, second: string): string {
+  for (let length = Math.min(first.length, second.length); length >= MIN_MERGE_OVERLAP; length--) {
+    if (first.endsWith(second.slice(0, length))) {
+      return first + second.slice(length);
+    }
+  }
+  return `${first}\n${second}`;
+}
+
+const chunkKey = (documentId: string, chunkIndex: number) => `${documentId}:${chunkIndex}`;
+
+// Widen each hit with the chunks right before and after it (`chunk_index` ± 1), best hits first and
+// while `canAdd` accepts the neighbour. Hits that end up adjacent become one passage, which keeps the
+// identity and position of its best-ranked hit and lists every chunk it covers in `chunk_ids`.
+export function expandWithNeighbors<T extends ContextChunk>(
+  hits: T[],
+  neighbors: ContextChunk[],
+  canAdd: (neighbor: ContextChunk) => boolean
+): (T & { chunk_ids: string[] })[] {
+  const chunks = new Map<string, ContextChunk>();
+  for (const chunk of [...neighbors, ...hits]) {
+    chunks.set(chunkKey(chunk.document_id, chunk.chunk_index), chunk);
+  }
+
+  const included = new Set(hits.map(hit => chunkKey(hit.document_id, hit.chunk_index)));
+  for (const hit of hits) {
+    for (const index of [hit.chunk_index - 1, hit.chunk_index + 1]) {
+      const key = chunkKey(hit.document_id, index);
+      const neighbor = chunks.get(key);
+      if (neighbor && !included.has(key) && canAdd(neighbor)) {
+        included.add(key);
+      }
+    }
+  }
+
+  const covered = new Set<string>();
+  const passages: (T & { chunk_ids: string[] })[] = [];
+
+  for (const hit of hits) {
+    if (covered.has(chunkKey(hit.document_id, hit.chunk_index))) continue;
+
+    let first = hit.chunk_index;
+    let last = hit.chunk_index;
+    while (included.has(chunkKey(hit.document_id, first - 1))) first--;
+    while (included.has(chunkKey(hit.document_id, last + 1))) last++;
+
+    const run: ContextChunk[] = [];
+    for (let index = first; index <= last; index++) {
+      const key = chunkKey(hit.document_id, index);
+      covered.add(key);
+      run.push(chunks.get(key)!);
+    }
+
+    const start = run[0];
+    const end = run[run.length - 1];
+    passages.push({
+      ...hit,
+      content: run.map(chunk => chunk.content).reduce(mergeOverlapping),
+      page_number: start.page_number,
+      end_page_number: end.end_page_number ?? end.page_number,
+      start_offset: start.start_offset ?? null,
+      end_offset: end.end_offset ?? null,
+      chunk_ids: run.map(chunk => chunk.id)
+    });
+  }
+
+  return passages;
+}
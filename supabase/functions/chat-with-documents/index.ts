@@ -1,389 +1,564 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
-import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { getRequestUser } from '../_shared/auth.ts';
+import { CITATION_PATTERN, validateCitations, type ChatSource } from '../_shared/chat-sources.ts';
+import { corsHeaders, handleCorsPreflight } from '../_shared/cors.ts';
+import {
+  badRequest,
+  errorResponse,
+  jsonResponse,
+  notFound,
+  readJsonBody,
+  toErrorEnvelope,
+  unauthorized
+} from '../_shared/http.ts';
+import { hybridSearch, type HybridMatch } from '../_shared/hybrid-search.ts';
+import { generateWithFallback, getProviderChain, type GenerationResult } from '../_shared/llm-providers.ts';
+import { getReranker, rerank } from '../_shared/rerankers.ts';
+import { diversify, expandWithNeighbors, packContext, type ContextChunk } from './context.ts';
+import { createServiceClient, type SupabaseClient } from '../_shared/supabase.ts';
+import { countTokens } from '../_shared/tokens.ts';
+import { UpstreamError, UpstreamTimeoutError } from '../_shared/upstream.ts';
+
+// Generate an AI response through the configured provider chain; when onToken is given the answer is streamed
+function generateAIResponse(prompt: string, onToken?: (text: string) => void): Promise<GenerationResult> {
+  return generateWithFallback(getProviderChain(), prompt, onToken);
+}
+
+// Map a provider failure to a message that can be shown to the user
+function describeAIFailure(error: unknown): string {
+  let userMessage = "I'm experiencing technical difficulties right now. ";
+  const status = error instanceof UpstreamError ? error.upstreamStatus : null;
+
+  if (status === 503 || error instanceof UpstreamTimeoutError) {
+    userMessage += "The AI service is currently overloaded. Please try again in a few moments.";
+  } else if (status === 429) {
+    userMessage += "Too many requests are being processed. Please wait a moment and try again.";
+  } else {
+    userMessage += "Please try again later or contact support if the issue persists.";
+  }
+
+  return userMessage;
+}
 
-const corsHeaders = {
-  'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+// A search hit, or a recent chunk when search failed, which has no search scores
+type RetrievedChunk = ContextChunk & Pick<HybridMatch, 'metadata'> & {
+  documents: { name: string };
+  similarity?: number | null;
 };
 
-// Retry utility with exponential backoff
-async function retryWithBackoff<T>(
-  operation: () => Promise<T>,
-  maxRetries: number = 3,
-  baseDelay: number = 1000
-): Promise<T> {
-  let lastError: Error;
-  
-  for (let attempt = 0; attempt <= maxRetries; attempt++) {
-    try {
-      return await operation();
-    } catch (error) {
-      lastError = error as Error;
-      
-      if (attempt === maxRetries) {
-        throw lastError;
-      }
-      
-      const isRetryable = error.message.includes('503') || 
-                         error.message.includes('429') || 
-                         error.message.includes('500') ||
-                         error.message.includes('overloaded') ||
-                         error.message.includes('network');
-      
-      if (!isRetryable) {
-        throw lastError;
-      }
-      
-      const delay = baseDelay * Math.pow(2, attempt) + Math.random() * 1000;
-      console.log(`🔄 Retry attempt ${attempt + 1}/${maxRetries} after ${delay}ms`);
-      await new Promise(resolve => setTimeout(resolve, delay));
-    }
+// A retrieved chunk once reranked; passages widened with neighbouring chunks list the chunks they cover
+type ContextPassage = RetrievedChunk & { rerank_score: number | null; chunk_ids?: string[] };
+
+interface ChatRequest {
+  sessionId?: string;
+  message?: string;
+  stream?: boolean;
+  fullTextWeight?: number;
+  semanticWeight?: number;
+  expandNeighbors?: boolean;
+}
+
+interface ConversationTurn {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+// Appended to a streamed answer whose generation failed partway
+const INTERRUPTED_ANSWER_NOTE = '\n\n(The answer was interrupted before it was complete.)';
+
+// Conversation memory limits, overridable per deployment
+const HISTORY_MAX_TURNS = Number(Deno.env.get('CHAT_HISTORY_MAX_TURNS') ?? 6);
+const HISTORY_TOKEN_BUDGET = Number(Deno.env.get('CHAT_HISTORY_TOKEN_BUDGET') ?? 1000);
+
+// Retrieval limits: search over-fetches candidates for the reranker, and the best of them that fit
+// the context budget are sent to the model
+const RERANK_CANDIDATES = Number(Deno.env.get('RERANK_CANDIDATES') ?? 40);
+const CONTEXT_MAX_CHUNKS = Number(Deno.env.get('CONTEXT_MAX_CHUNKS') ?? 5);
+const CONTEXT_TOKEN_BUDGET = Number(Deno.env.get('CONTEXT_TOKEN_BUDGET') ?? 3000);
+// Trade-off between relevance (1) and diversity (0) when picking context chunks
+const MMR_LAMBDA = Number(Deno.env.get('MMR_LAMBDA') ?? 0.7);
+// Default for the `expandNeighbors` request option
+const CONTEXT_EXPAND_NEIGHBORS = Deno.env.get('CONTEXT_EXPAND_NEIGHBORS') === 'true';
+
+// Share of a model's context window the prompt may fill. Tokens are counted with one tokenizer for
+// every provider, so some room is left for the difference to theirs.
+const CONTEXT_WINDOW_FILL = 0.9;
+
+// Tokens the retrieved context may take: CONTEXT_TOKEN_BUDGET, capped by the smallest context window
+// in the provider chain once the answer and the rest of the prompt are reserved
+function contextTokenBudget(promptTokens: number): number {
+  const windowBudgets = getProviderChain().map(provider =>
+    Math.floor((provider.contextWindow - provider.maxOutputTokens) * CONTEXT_WINDOW_FILL) - promptTokens
+  );
+  return Math.max(0, Math.min(CONTEXT_TOKEN_BUDGET, ...windowBudgets));
+}
+
+// The chunks right before and after each hit in its document
+async function loadNeighborChunks(
+  supabaseClient: SupabaseClient,
+  userId: string,
+  hits: ContextChunk[]
+): Promise<ContextChunk[]> {
+  const wanted = new Set(hits.flatMap(hit => [-1, 1].map(step => `${hit.document_id}:${hit.chunk_index + step}`)));
+
+  const { data, error } = await supabaseClient
+    .from('document_chunks')
+    .select('id, document_id, chunk_index, content, page_number, end_page_number, start_offset, end_offset')
+    .eq('user_id', userId)
+    .in('document_id', [...new Set(hits.map(hit => hit.document_id))])
+    .in('chunk_index', [...new Set(hits.flatMap(hit => [hit.chunk_index - 1, hit.chunk_index + 1]))]);
+
+  if (error) {
+    console.error('❌ Failed to load neighbouring chunks:', error);
+    return [];
   }
-  
-  throw lastError!;
+
+  return (data as ContextChunk[]).filter(chunk => wanted.has(`${chunk.document_id}:${chunk.chunk_index}`));
 }
 
-// Gemini API call with retry logic
-async function callGeminiAPI(prompt: string, apiKey: string): Promise<string> {
-  return await retryWithBackoff(async () => {
-    console.log('🤖 Calling Gemini API...');
-    const response = await fetch(`https://generativelanguage.googleapis.com/v1beta/models/gemini-1.5-flash:generateContent?key=${apiKey}`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        contents: [{ parts: [{ text: prompt }] }]
-      })
-    });
+// Load the most recent turns of a conversation, oldest first; the message being answered is not stored yet
+async function loadConversationHistory(
+  supabaseClient: SupabaseClient,
+  conversationId: string
+): Promise<ConversationTurn[]> {
+  if (!conversationId || HISTORY_MAX_TURNS <= 0) return [];
+
+  const { data, error } = await supabaseClient
+    .from('messages')
+    .select('role, content')
+    .eq('conversation_id', conversationId)
+    .order('created_at', { ascending: false })
+    .limit(HISTORY_MAX_TURNS);
+
+  if (error) {
+    console.error('❌ Failed to load conversation history:', error);
+    return [];
+  }
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('❌ Gemini API error:', errorText);
-      
-      if (response.status === 503) {
-        throw new Error(`GEMINI_OVERLOADED: ${errorText}`);
-      }
-      if (response.status === 429) {
-        throw new Error(`GEMINI_RATE_LIMITED: ${errorText}`);
-      }
-      
-      throw new Error(`Gemini API failed: ${response.status} - ${errorText}`);
-    }
+  return ((data || []) as ConversationTurn[]).reverse();
+}
 
-    const responseData = await response.json();
-    const aiResponse = responseData.candidates?.[0]?.content?.parts?.[0]?.text;
-    
-    if (!aiResponse) {
-      console.error('❌ No AI response text found in:', responseData);
-      throw new Error('No response generated from Gemini');
-    }
-    
-    console.log('✅ Generated Gemini response, length:', aiResponse.length);
-    return aiResponse;
-  }, 3, 1000);
+// Keep the newest turns that fit within the token budget
+function fitHistoryToBudget(turns: ConversationTurn[], tokenBudget: number): ConversationTurn[] {
+  const fitted: ConversationTurn[] = [];
+  let usedTokens = 0;
+
+  for (let i = turns.length - 1; i >= 0; i--) {
+    const tokens = countTokens(turns[i].content);
+    if (usedTokens + tokens > tokenBudget) break;
+
+    usedTokens += tokens;
+    fitted.unshift(turns[i]);
+  }
+
+  return fitted;
 }
 
-// OpenAI fallback with retry logic
-async function callOpenAIFallback(prompt: string, apiKey: string): Promise<string> {
-  return await retryWithBackoff(async () => {
-    console.log('🔄 Calling OpenAI as fallback...');
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${apiKey}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'gpt-4o-mini',
-        messages: [
-          { role: 'system', content: 'You are a helpful assistant that answers questions based on provided document context.' },
-          { role: 'user', content: prompt }
-        ],
-        temperature: 0.7,
-        max_tokens: 1500
-      })
-    });
+// Earlier citation numbers refer to earlier context, so they are dropped from the history
+function formatHistory(turns: ConversationTurn[]): string {
+  return turns
+    .map(turn => `${turn.role === 'user' ? 'User' : 'Assistant'}: ${turn.content.replace(CITATION_PATTERN, '')}`)
+    .join('\n');
+}
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('❌ OpenAI API error:', errorText);
-      throw new Error(`OpenAI API failed: ${response.status} - ${errorText}`);
-    }
+// Built once without context as well, to measure how much of the window the rest of the prompt takes
+function buildAnswerPrompt(context: string, history: ConversationTurn[], message: string): string {
+  const conversationSection = history.length > 0
+    ? `\nConversation so far:\n${formatHistory(history)}\n`
+    : '';
 
-    const responseData = await response.json();
-    const aiResponse = responseData.choices?.[0]?.message?.content;
-    
-    if (!aiResponse) {
-      throw new Error('No response generated from OpenAI');
-    }
-    
-    console.log('✅ Generated OpenAI response, length:', aiResponse.length);
-    return aiResponse;
-  }, 2, 1000);
+  return `Based on the following context from documents, answer the user's question. If the answer cannot be found in the context, say so clearly.
+Each context passage starts with a number in brackets. Cite the passages you use inline with their number, e.g. "The warranty lasts two years [2].", and only cite numbers that appear in the context.
+${conversationSection}
+Context:
+${context}
+
+User Question: ${message}
+
+Answer:`;
 }
 
-// Generate AI response with fallback logic
-async function generateAIResponse(prompt: string): Promise<{ response: string; provider: string }> {
-  const geminiApiKey = Deno.env.get('GOOGLE_GEMINI_API_KEY');
-  const openaiApiKey = Deno.env.get('OPENAI_API_KEY');
-  
-  if (geminiApiKey) {
-    try {
-      const response = await callGeminiAPI(prompt, geminiApiKey);
-      return { response, provider: 'Gemini' };
-    } catch (error) {
-      console.error('❌ Gemini failed:', error.message);
-      
-      if (error.message.includes('GEMINI_OVERLOADED') || error.message.includes('GEMINI_RATE_LIMITED')) {
-        console.log('🔄 Gemini overloaded, trying OpenAI fallback...');
-        
-        if (openaiApiKey) {
-          try {
-            const response = await callOpenAIFallback(prompt, openaiApiKey);
-            return { response, provider: 'OpenAI (fallback)' };
-          } catch (fallbackError) {
-            console.error('❌ OpenAI fallback also failed:', fallbackError.message);
-          }
-        }
-      }
-      
-      throw error;
-    }
+// Rewrite a follow-up question into a standalone search query using the conversation so far
+async function rewriteStandaloneQuery(message: string, history: ConversationTurn[]): Promise<string> {
+  if (history.length === 0) return message;
+
+  const prompt = `Given the conversation below and a follow-up question, rewrite the follow-up as a standalone search query that can be understood without the conversation. Keep names, numbers and section references. Return only the rewritten query.
+
+Conversation:
+${formatHistory(history)}
+
+Follow-up question: ${message}
+
+Standalone query:`;
+
+  try {
+    const { response } = await generateAIResponse(prompt);
+    const rewritten = response.trim();
+    return rewritten || message;
+  } catch (error) {
+    console.error('❌ Query rewrite failed, searching with the original message:', error.message);
+    return message;
   }
+}
 
-  if (openaiApiKey) {
-    try {
-      const response = await callOpenAIFallback(prompt, openaiApiKey);
-      return { response, provider: 'OpenAI' };
-    } catch (error) {
-      console.error('❌ OpenAI failed:', error.message);
-      throw error;
+// Build a Server-Sent Events response; `run` pushes named events until the answer is complete
+function createEventStream(run: (send: (event: string, data: unknown) => void) => Promise<void>): Response {
+  const encoder = new TextEncoder();
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: string, data: unknown) => {
+        controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+      };
+
+      try {
+        await run(send);
+      } catch (error) {
+        console.error('❌ Error while streaming response:', error);
+        send('error', toErrorEnvelope(error));
+      } finally {
+        controller.close();
+      }
     }
-  }
-  
-  throw new Error('No AI API keys configured');
+  });
+
+  return new Response(body, {
+    headers: {
+      ...corsHeaders,
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+    },
+  });
 }
 
 serve(async (req) => {
-  if (req.method === 'OPTIONS') {
-    return new Response(null, { headers: corsHeaders });
-  }
+  const preflight = handleCorsPreflight(req);
+  if (preflight) return preflight;
 
-  try {
-    const { sessionId, message, userId } = await req.json();
-    console.log('💬 Chat request:', { sessionId, userId, messageLength: message?.length });
-    
-    const supabaseClient = createClient(
-      Deno.env.get('SUPABASE_URL') ?? '',
-      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
-    );
+  const startedAt = Date.now();
 
-    const geminiApiKey = Deno.env.get('GOOGLE_GEMINI_API_KEY');
-    if (!geminiApiKey) {
-      console.error('❌ Missing Gemini API key');
-      throw new Error('Google Gemini API key not configured');
-    }
+  try {
+    const {
+      sessionId,
+      message,
+      stream = false,
+      fullTextWeight = 1.0,
+      semanticWeight = 1.0,
+      expandNeighbors = CONTEXT_EXPAND_NEIGHBORS
+    } = await readJsonBody<ChatRequest>(req);
     
-    console.log('✅ API key configured, processing message...');
-
-    // Generate embedding for the user's message with retry
-    console.log('🔄 Generating embedding for query...');
-    const queryEmbedding = await retryWithBackoff(async () => {
-      const embeddingResponse = await fetch(`https://generativelanguage.googleapis.com/v1beta/models/embedding-001:embedContent?key=${geminiApiKey}`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          model: 'models/embedding-001',
-          content: { parts: [{ text: message }] }
-        })
+    const supabaseClient = createServiceClient();
+
+    // The caller is resolved from their JWT; search below is scoped to their documents
+    const user = await getRequestUser(req, supabaseClient);
+    if (!user) throw unauthorized();
+    const userId = user.id;
+    console.log('💬 Chat request:', { sessionId, userId, stream, messageLength: message?.length });
+
+    if (!sessionId || !message) throw badRequest('sessionId and message are required');
+
+    const { data: conversation, error: conversationError } = await supabaseClient
+      .from('conversations')
+      .select('id')
+      .eq('id', sessionId)
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (conversationError) throw conversationError;
+    if (!conversation) throw notFound('Conversation not found');
+
+    // Documents the conversation is limited to; none means all of the user's documents
+    const { data: scopeRows, error: scopeError } = await supabaseClient
+      .from('conversation_documents')
+      .select('document_id')
+      .eq('conversation_id', sessionId);
+
+    if (scopeError) throw scopeError;
+    const documentIds: string[] | null = scopeRows && scopeRows.length > 0
+      ? scopeRows.map((row: { document_id: string }) => row.document_id)
+      : null;
+
+    // Store the question together with its answer in one transaction and return both rows
+    const saveChatTurn = async (answer: string, details: {
+      sources?: unknown[];
+      provider?: string;
+      model?: string;
+      chunkIds?: string[];
+    } = {}) => {
+      const { data: savedMessages, error: saveError } = await supabaseClient.rpc('save_chat_turn', {
+        target_conversation_id: sessionId,
+        target_user_id: userId,
+        question: message,
+        answer,
+        answer_sources: details.sources?.length ? details.sources : null,
+        answer_provider: details.provider ?? null,
+        answer_model: details.model ?? null,
+        answer_latency_ms: Date.now() - startedAt,
+        answer_chunk_ids: details.chunkIds ?? []
       });
 
-      if (!embeddingResponse.ok) {
-        const errorText = await embeddingResponse.text();
-        console.error('❌ Embedding API error:', errorText);
-        throw new Error(`Embedding API failed: ${embeddingResponse.status} - ${errorText}`);
+      if (saveError) {
+        console.error('❌ Error saving chat turn:', saveError);
+        throw saveError;
       }
 
-      const embeddingData = await embeddingResponse.json();
-      const embedding = embeddingData.embedding?.values;
+      console.log('✅ Chat turn saved successfully');
+      const [userMessage, assistantMessage] = savedMessages;
+      return { user: userMessage, assistant: assistantMessage };
+    };
 
-      if (!embedding) {
-        console.error('❌ No embedding returned:', embeddingData);
-        throw new Error('Failed to generate query embedding');
-      }
-      
-      return embedding;
-    }, 3, 1000);
-    
-    console.log('✅ Generated embedding with', queryEmbedding.length, 'dimensions');
-
-    // **Updated Section: Searching for relevant documents**
-    console.log('🔍 Searching for relevant documents...');
-    const { data: searchResults, error: searchError } = await supabaseClient.rpc('match_documents', {
-      query_embedding: queryEmbedding,
-      match_threshold: 0.5,
-      match_count: 5,
-      user_id: userId
+    // Load prior turns so follow-ups can be resolved against the conversation
+    const history = fitHistoryToBudget(
+      await loadConversationHistory(supabaseClient, sessionId),
+      HISTORY_TOKEN_BUDGET
+    );
+    const searchQuery = await rewriteStandaloneQuery(message, history);
+    console.log('🧠 Using', history.length, 'prior turns, search query:', searchQuery);
+
+    // Hybrid search: keyword and vector rankings fused with reciprocal rank fusion
+    const { data: searchResults, error: searchError } = await hybridSearch(supabaseClient, {
+      query: searchQuery,
+      userId,
+      documentIds,
+      matchCount: RERANK_CANDIDATES,
+      fullTextWeight,
+      semanticWeight
     });
 
-    let chunks;
+    let retrieved: RetrievedChunk[];
     if (searchError) {
       console.error('❌ Search error:', searchError);
       console.log('🔄 Using fallback: getting recent chunks...');
       
-      // Fallback to fetching recent document chunks from the user's documents
-      const { data: fallbackChunks, error: fallbackError } = await supabaseClient
+      // Fall back to chunks of the same documents search would have covered: the user's completed
+      // documents, within the conversation's scope
+      let fallbackQuery = supabaseClient
         .from('document_chunks')
         .select(`
+          id,
+          document_id,
           content,
           page_number,
-          documents!inner(name, user_id)  -- Ensure correct join and column reference
+          end_page_number,
+          start_offset,
+          end_offset,
+          chunk_index,
+          metadata,
+          documents!inner(name, user_id, status)
         `)
-        .eq('documents.user_id', userId)   // Ensure we're filtering by user_id
-        .limit(5);                         // Limit the number of chunks returned
+        .eq('documents.user_id', userId)
+        .eq('documents.status', 'completed')
+        .limit(5);
+      if (documentIds) {
+        fallbackQuery = fallbackQuery.in('document_id', documentIds);
+      }
+      const { data: fallbackChunks, error: fallbackError } = await fallbackQuery;
       
       if (fallbackError) {
         console.error('❌ Fallback query error:', fallbackError);
-        chunks = [];
+        retrieved = [];
       } else {
-        chunks = fallbackChunks || [];
-        console.log('✅ Fallback found', chunks.length, 'chunks');
+        retrieved = (fallbackChunks || []) as RetrievedChunk[];
+        console.log('✅ Fallback found', retrieved.length, 'chunks');
       }
     } else {
-      chunks = searchResults || [];
-      console.log('✅ Vector search found', chunks.length, 'chunks');
+      retrieved = searchResults || [];
+      console.log('✅ Hybrid search found', retrieved.length, 'chunks');
     }
 
     // **Improved Fallback Logic**
-    if (chunks.length === 0) {
+    if (retrieved.length === 0) {
       console.log('⚠️ No relevant document chunks found!');
-      return new Response(JSON.stringify({ 
-        response: "I couldn't find relevant documents for your query. Please check if the documents are correctly processed.",
-        sources: []
-      }), {
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      const noResultsResponse = "I couldn't find relevant documents for your query. Please check if the documents are correctly processed.";
+
+      return jsonResponse({
+        response: noResultsResponse,
+        sources: [],
+        messages: await saveChatTurn(noResultsResponse)
       });
     }
 
-    // Build context from retrieved chunks
-    const context = chunks.map((chunk: any) => chunk.content).join('\n\n');
-    const sources = chunks.map((chunk: any) => ({
-      document_title: chunk.documents?.name || 'Document',
-      chunk_content: chunk.content.substring(0, 100) + '...',
-      page_number: chunk.page_number
+    // Rerank the candidates, then keep the best that fit the context budget
+    const reranker = getReranker();
+    let ranked: ContextPassage[];
+    if (typeof reranker === 'string') {
+      console.log(`⏩ Skipping reranking: ${reranker}`);
+      ranked = retrieved.map(chunk => ({ ...chunk, rerank_score: null }));
+    } else {
+      console.log(`🏅 Reranking ${retrieved.length} candidates with ${reranker.name}...`);
+      ranked = await rerank(reranker, searchQuery, retrieved, chunk =>
+        chunk.metadata?.heading_path ? `${chunk.metadata.heading_path}\n\n${chunk.content}` : chunk.content
+      );
+    }
+    // Near-duplicates (e.g. overlapping chunks of one page) give way to other relevant chunks, and the
+    // best of the rest are packed into what the prompt leaves of the context window
+    const tokenBudget = contextTokenBudget(countTokens(buildAnswerPrompt('', history, message)));
+    const packed = packContext(
+      diversify(ranked, MMR_LAMBDA),
+      CONTEXT_MAX_CHUNKS,
+      tokenBudget,
+      chunk => countTokens(chunk.content)
+    );
+    let chunks = packed.chunks;
+    let usedTokens = packed.usedTokens;
+    const dropped = packed.dropped.map(({ chunk, tokens }) => ({
+      chunkId: chunk.id,
+      documentId: chunk.document_id,
+      documentName: chunk.documents?.name || 'Document',
+      tokens
     }));
+    console.log('✅ Packed', chunks.length, 'chunks,', usedTokens, 'of', tokenBudget, 'context tokens');
+    if (dropped.length > 0) {
+      console.log('✂️ Dropped chunks over the token budget:', dropped.map(chunk => `${chunk.chunkId} (${chunk.tokens})`).join(', '));
+    }
+
+    // Optionally add the text around each hit, as far as the token budget allows
+    if (expandNeighbors) {
+      const neighbors = await loadNeighborChunks(supabaseClient, userId, chunks);
+
+      chunks = expandWithNeighbors(chunks, neighbors, (neighbor) => {
+        const tokens = countTokens(neighbor.content);
+        if (usedTokens + tokens > tokenBudget) return false;
+        usedTokens += tokens;
+        return true;
+      });
+      console.log('✅ Expanded to', chunks.length, 'passages with', neighbors.length, 'neighbouring chunks');
+    }
+    const contextReport = { tokenBudget, usedTokens, dropped };
+
+    // Build context from retrieved chunks, numbered [1..n] so the answer can cite them inline
+    const chunkIds = chunks.flatMap(chunk => chunk.chunk_ids ?? [chunk.id]).filter(Boolean);
+    const sources: ChatSource[] = chunks.map((chunk, position) => ({
+      index: position + 1,
+      chunk_id: chunk.id ?? null,
+      document_id: chunk.document_id ?? null,
+      document_name: chunk.documents?.name || 'Document',
+      heading_path: chunk.metadata?.heading_path ?? null,
+      snippet: chunk.content.length > 200 ? chunk.content.substring(0, 200) + '...' : chunk.content,
+      page_number: chunk.page_number,
+      end_page_number: chunk.end_page_number ?? chunk.page_number,
+      start_offset: chunk.start_offset ?? null,
+      end_offset: chunk.end_offset ?? null,
+      similarity: chunk.similarity ?? null,
+      rerank_score: chunk.rerank_score ?? null,
+      cited: false
+    }));
+    const context = chunks.map((chunk, position) => {
+      const source = sources[position];
+      const pages = source.end_page_number > source.page_number
+        ? `pages ${source.page_number}-${source.end_page_number}`
+        : `page ${source.page_number}`;
+      const section = source.heading_path ? ` (${source.heading_path})` : '';
+      return `[${source.index}] ${source.document_name}, ${pages}${section}\n${chunk.content}`;
+    }).join('\n\n');
+
+    // Keep only citations that point at a retrieved chunk and flag the cited sources
+    const resolveCitations = (answer: string) => {
+      const { text, cited } = validateCitations(answer, sources.length);
+      return {
+        text,
+        sources: sources.map(source => ({ ...source, cited: cited.includes(source.index) }))
+      };
+    };
 
     console.log('📄 Built context from', chunks.length, 'chunks, total chars:', context.length);
 
-    if (context.length === 0) {
+    if (!chunks.some(chunk => chunk.content)) {
       console.log('⚠️ No context found, using general response');
       const generalResponse = "I don't have any document content to reference. Please upload some documents first, and make sure they are properly processed.";
-      
-      await supabaseClient
-        .from('chat_messages')
-        .insert({
-          session_id: sessionId,
-          role: 'assistant',
-          content: generalResponse,
-          sources: []
-        });
         
-      return new Response(JSON.stringify({ 
+      return jsonResponse({
         response: generalResponse,
-        sources: []
-      }), {
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        sources: [],
+        messages: await saveChatTurn(generalResponse)
       });
     }
 
     // Generate response using AI with fallback
     console.log('🤖 Generating AI response with fallback support...');
-    const prompt = `Based on the following context from documents, answer the user's question. If the answer cannot be found in the context, say so clearly.
-
-Context:
-${context}
-
-User Question: ${message}
+    const prompt = buildAnswerPrompt(context, history, message);
+
+    if (stream) {
+      console.log('📡 Streaming AI response to client...');
+      return createEventStream(async (send) => {
+        let streamedResponse = '';
+
+        try {
+          const result = await generateAIResponse(prompt, (text) => {
+            streamedResponse += text;
+            send('token', { text });
+          });
+          console.log(`✅ Streamed response using ${result.provider}`);
+
+          // The stored answer (in `messages`) has invalid citation markers removed
+          const answer = resolveCitations(result.response);
+          const messages = await saveChatTurn(answer.text, {
+            sources: answer.sources,
+            provider: result.provider,
+            model: result.model,
+            chunkIds
+          });
+          send('done', { sources: answer.sources, provider: result.provider, context: contextReport, messages });
+        } catch (error) {
+          console.error('❌ All AI providers failed:', error.message);
+
+          // Once tokens have reached the client we cannot swap the answer: store what was streamed,
+          // marked as cut off, and report the failure with the stored turn
+          if (streamedResponse) {
+            const answer = resolveCitations(`${streamedResponse}${INTERRUPTED_ANSWER_NOTE}`);
+            const messages = await saveChatTurn(answer.text, { sources: answer.sources, chunkIds });
+            send('error', { ...toErrorEnvelope(error), messages });
+            return;
+          }
 
-Answer:`;
+          const userMessage = describeAIFailure(error);
+          const messages = await saveChatTurn(userMessage);
+          send('token', { text: userMessage });
+          send('done', { sources: [], warning: 'AI_SERVICE_UNAVAILABLE', messages });
+        }
+      });
+    }
 
     let aiResponse: string;
     let provider: string;
+    let model: string;
     
     try {
       const result = await generateAIResponse(prompt);
       aiResponse = result.response;
       provider = result.provider;
+      model = result.model;
       console.log(`✅ Generated response using ${provider}`);
     } catch (error) {
       console.error('❌ All AI providers failed:', error.message);
       
-      let userMessage = "I'm experiencing technical difficulties right now. ";
-      
-      if (error.message.includes('overloaded') || error.message.includes('503')) {
-        userMessage += "The AI service is currently overloaded. Please try again in a few moments.";
-      } else if (error.message.includes('rate') || error.message.includes('429')) {
-        userMessage += "Too many requests are being processed. Please wait a moment and try again.";
-      } else {
-        userMessage += "Please try again later or contact support if the issue persists.";
-      }
-      
-      await supabaseClient
-        .from('chat_messages')
-        .insert({
-          session_id: sessionId,
-          role: 'assistant',
-          content: userMessage,
-          sources: []
-        });
+      const userMessage = describeAIFailure(error);
         
-      return new Response(JSON.stringify({ 
+      return jsonResponse({
         response: userMessage,
         sources: [],
-        error: 'AI_SERVICE_UNAVAILABLE'
-      }), {
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        warning: 'AI_SERVICE_UNAVAILABLE',
+        messages: await saveChatTurn(userMessage)
       });
     }
 
-    // Save assistant message
-    console.log('💾 Saving response to database...');
-    const { error: saveError } = await supabaseClient
-      .from('chat_messages')
-      .insert({
-        session_id: sessionId,
-        role: 'assistant',
-        content: aiResponse,
-        sources: sources
-      });
+    const answer = resolveCitations(aiResponse);
 
-    if (saveError) {
-      console.error('❌ Error saving message:', saveError);
-    } else {
-      console.log('✅ Response saved successfully');
-    }
+    // Save both turns
+    console.log('💾 Saving chat turn to database...');
+    const messages = await saveChatTurn(answer.text, { sources: answer.sources, provider, model, chunkIds });
 
-    return new Response(JSON.stringify({ 
-      response: aiResponse,
-      sources: sources,
-      provider: provider
-    }), {
-      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    return jsonResponse({
+      response: answer.text,
+      sources: answer.sources,
+      provider,
+      context: contextReport,
+      messages
     });
 
   } catch (error) {
     console.error('❌ Error in chat function:', error);
-    console.error('❌ Error stack:', error.stack);
-    
-    const errorMessage = error.message || 'An unexpected error occurred';
-    console.log('📤 Returning error response:', errorMessage);
-    
-    return new Response(JSON.stringify({ 
-      error: errorMessage,
-      details: error.stack
-    }), {
-      status: 500,
-      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-    });
+    return errorResponse(error);
   }
 });
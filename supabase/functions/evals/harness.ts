@@ -0,0 +1,297 @@
+// Eval harness for retrieval and answer quality. A fixture set of documents is ingested for a fresh user
+// through process-document; each question is then sent to search-documents, scored for recall@k and
+// reciprocal rank, and to chat-with-documents, scored for citation accuracy and, by an LLM judge, for
+// faithfulness to the retrieved passages. Runs are stored in eval_runs to compare them over time.
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import type { ChatSource } from '../_shared/chat-sources.ts';
+import { generateWithFallback, getProviderChain, type ChatProvider } from '../_shared/llm-providers.ts';
+import type { SearchResponse } from '../_shared/search-results.ts';
+import type { MockLLMServer } from './mock-llm-server.ts';
+import { callFunction, createConversation, processDocument, uploadDocument, type TestUser } from './local-stack.ts';
+import {
+  average,
+  citationAccuracy,
+  parseJudgeScore,
+  recallAtK,
+  reciprocalRank,
+  type ExpectedPassage,
+  type RetrievedPassage
+} from './metrics.ts';
+
+export interface FixtureDocument {
+  // Referenced by the questions' expectations
+  id: string;
+  name: string;
+  // Path relative to the fixture directory
+  file: string;
+  mimeType: string;
+}
+
+export interface FixtureQuestion {
+  id: string;
+  question: string;
+  expected: ExpectedPassage[];
+}
+
+export interface EvalFixture {
+  name: string;
+  documents: FixtureDocument[];
+  questions: FixtureQuestion[];
+  // Directory the document files are read from
+  baseUrl: URL;
+}
+
+export type EvalMetrics = Record<string, number | null>;
+
+export interface QuestionResult {
+  id: string;
+  question: string;
+  // Keyed by cutoff, e.g. "recall@5"
+  recall: Record<string, number>;
+  reciprocal_rank: number;
+  citation_accuracy: number | null;
+  faithfulness: number | null;
+  answer: string;
+  // Search results and cited sources, best first, as "<document> p.<page>"
+  retrieved: string[];
+  cited: string[];
+}
+
+export interface EvalRun {
+  fixture: string;
+  label: string | null;
+  config: Record<string, unknown>;
+  metrics: EvalMetrics;
+  results: QuestionResult[];
+}
+
+export interface StoredEvalRun {
+  label: string | null;
+  metrics: EvalMetrics;
+  created_at: string;
+}
+
+// Ranks scored by recall@k; search is asked for as many results as the largest one
+export const RECALL_CUTOFFS = [1, 3, 5, 10];
+
+// Opens every judge prompt, so a mock server can recognise them
+export const JUDGE_PROMPT_INTRO = 'You are grading whether an answer is faithful to the passages it was based on.';
+
+const FIXTURES_DIR = new URL('./fixtures/', import.meta.url);
+
+export async function loadFixture(name: string): Promise<EvalFixture> {
+  const baseUrl = new URL(`${name}/`, FIXTURES_DIR);
+  const fixture = JSON.parse(await Deno.readTextFile(new URL('fixture.json', baseUrl)));
+  return { ...fixture, baseUrl };
+}
+
+// A judge backed by the mock LLM server that rates every answer as faithful, for offline runs
+export function createMockJudge(mock: MockLLMServer): ChatProvider[] {
+  mock.answerWhen(JUDGE_PROMPT_INTRO, '{"score": 1, "reason": "Mock judge"}');
+  return getProviderChain([
+    { type: 'openai-compatible', name: 'Mock judge', baseUrl: `${mock.url}/v1`, model: 'mock-judge', maxRetries: 0 }
+  ]);
+}
+
+// Upload and ingest the fixture's documents, returning the fixture id of each document id
+async function ingestFixture(admin: SupabaseClient, testUser: TestUser, fixture: EvalFixture): Promise<Map<string, string>> {
+  const fixtureIds = new Map<string, string>();
+
+  for (const document of fixture.documents) {
+    console.log(`📄 Ingesting ${document.file}...`);
+    const content = await Deno.readFile(new URL(document.file, fixture.baseUrl));
+    const documentId = await uploadDocument(testUser, document.name, content, document.mimeType);
+
+    const processed = await processDocument(admin, testUser, documentId);
+    if (processed.status !== 'completed') {
+      throw new Error(`Fixture document ${document.id} failed to ingest: ${processed.error_message}`);
+    }
+    fixtureIds.set(documentId, document.id);
+  }
+
+  return fixtureIds;
+}
+
+// Full text and position of chunks, keyed by id; search hits and sources only carry snippets
+async function loadPassages(
+  admin: SupabaseClient,
+  chunkIds: string[],
+  fixtureIds: Map<string, string>
+): Promise<Map<string, RetrievedPassage>> {
+  if (chunkIds.length === 0) return new Map();
+
+  const { data, error } = await admin
+    .from('document_chunks')
+    .select('id, document_id, content, page_number, end_page_number')
+    .in('id', [...new Set(chunkIds)]);
+  if (error) throw error;
+
+  return new Map(data.map((chunk: {
+    id: string;
+    document_id: string;
+    content: string;
+    page_number: number;
+    end_page_number: number | null;
+  }) => [chunk.id, {
+    document: fixtureIds.get(chunk.document_id) ?? chunk.document_id,
+    page_number: chunk.page_number,
+    end_page_number: chunk.end_page_number ?? chunk.page_number,
+    content: chunk.content
+  }]));
+}
+
+async function judgeFaithfulness(judge: ChatProvider[], passages: RetrievedPassage[], answer: string): Promise<number | null> {
+  if (judge.length === 0 || passages.length === 0) return null;
+
+  const prompt = `${JUDGE_PROMPT_INTRO} An answer is faithful when every claim in it is supported by the passages; saying that the passages do not contain the answer is faithful too.
+Return only a JSON object {"score": s, "reason": "..."} with s from 0 (unsupported) to 1 (fully supported).
+
+Passages:
+${passages.map((passage, index) => `[${index + 1}] ${passage.content}`).join('\n\n')}
+
+Answer:
+${answer}`;
+
+  try {
+    const { response } = await generateWithFallback(judge, prompt);
+    return parseJudgeScore(response);
+  } catch (error) {
+    console.error('❌ Judging faithfulness failed:', error.message);
+    return null;
+  }
+}
+
+const describePassage = (passage: RetrievedPassage) => `${passage.document} p.${passage.page_number}`;
+
+async function evaluateQuestion(
+  admin: SupabaseClient,
+  testUser: TestUser,
+  fixtureIds: Map<string, string>,
+  judge: ChatProvider[],
+  question: FixtureQuestion
+): Promise<QuestionResult> {
+  const maxCutoff = Math.max(...RECALL_CUTOFFS);
+
+  const search = await callFunction(
+    'search-documents',
+    { query: question.question, pageSize: maxCutoff },
+    testUser.accessToken
+  );
+  if (search.status !== 200) throw new Error(`search-documents answered ${search.status}: ${JSON.stringify(search.body)}`);
+  const hits = (search.body as unknown as SearchResponse).results;
+
+  // A fresh conversation per question, so earlier answers do not steer the search
+  const sessionId = await createConversation(testUser);
+  const chat = await callFunction('chat-with-documents', { sessionId, message: question.question }, testUser.accessToken);
+  if (chat.status !== 200) throw new Error(`chat-with-documents answered ${chat.status}: ${JSON.stringify(chat.body)}`);
+  const answer = chat.body.response as string;
+  const sources = ((chat.body.sources ?? []) as ChatSource[]).filter(source => source.chunk_id);
+
+  const passages = await loadPassages(
+    admin,
+    [...hits.map(hit => hit.chunk_id), ...sources.map(source => source.chunk_id!)],
+    fixtureIds
+  );
+  const ranked = hits.map(hit => passages.get(hit.chunk_id)!);
+  const context = sources.map(source => passages.get(source.chunk_id!)!);
+  const cited = sources.filter(source => source.cited).map(source => passages.get(source.chunk_id!)!);
+
+  return {
+    id: question.id,
+    question: question.question,
+    recall: Object.fromEntries(RECALL_CUTOFFS.map(k => [`recall@${k}`, recallAtK(ranked, question.expected, k)])),
+    reciprocal_rank: reciprocalRank(ranked, question.expected),
+    citation_accuracy: citationAccuracy(cited, question.expected),
+    faithfulness: await judgeFaithfulness(judge, context, answer),
+    answer,
+    retrieved: ranked.map(describePassage),
+    cited: cited.map(describePassage)
+  };
+}
+
+function summarize(results: QuestionResult[]): EvalMetrics {
+  return {
+    ...Object.fromEntries(RECALL_CUTOFFS.map(k => [`recall@${k}`, average(results.map(result => result.recall[`recall@${k}`]))])),
+    mrr: average(results.map(result => result.reciprocal_rank)),
+    citation_accuracy: average(results.map(result => result.citation_accuracy)),
+    faithfulness: average(results.map(result => result.faithfulness))
+  };
+}
+
+// Run every question of the fixture as `testUser`, whose documents should be empty
+export async function runEval({ admin, testUser, fixture, judge, label = null, config = {} }: {
+  admin: SupabaseClient;
+  testUser: TestUser;
+  fixture: EvalFixture;
+  judge: ChatProvider[];
+  label?: string | null;
+  config?: Record<string, unknown>;
+}): Promise<EvalRun> {
+  const fixtureIds = await ingestFixture(admin, testUser, fixture);
+
+  const results: QuestionResult[] = [];
+  for (const question of fixture.questions) {
+    console.log(`❓ ${question.id}: ${question.question}`);
+    results.push(await evaluateQuestion(admin, testUser, fixtureIds, judge, question));
+  }
+
+  return {
+    fixture: fixture.name,
+    label,
+    config: { ...config, recall_cutoffs: RECALL_CUTOFFS, judge: judge.map(provider => provider.name) },
+    metrics: summarize(results),
+    results
+  };
+}
+
+// Store the run and return the previous run of the same fixture, to compare against
+export async function saveEvalRun(
+  admin: SupabaseClient,
+  run: EvalRun
+): Promise<{ id: string; previous: StoredEvalRun | null }> {
+  const { data: previous, error: previousError } = await admin
+    .from('eval_runs')
+    .select('label, metrics, created_at')
+    .eq('fixture', run.fixture)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  if (previousError) throw previousError;
+
+  const { data, error } = await admin.from('eval_runs').insert(run).select('id').single();
+  if (error) throw error;
+
+  return { id: data.id, previous };
+}
+
+const formatScore = (score: number | null | undefined) => typeof score === 'number' ? score.toFixed(3) : '-';
+
+export function formatReport(run: EvalRun, previous: StoredEvalRun | null): string {
+  const lines = [
+    `Eval "${run.fixture}"${run.label ? ` (${run.label})` : ''}: ${run.results.length} questions`,
+    previous
+      ? `Compared with the run of ${previous.created_at}${previous.label ? ` (${previous.label})` : ''}`
+      : 'No earlier run of this fixture to compare with',
+    '',
+    `${'metric'.padEnd(20)}${'score'.padStart(8)}${'change'.padStart(10)}`
+  ];
+
+  for (const [metric, score] of Object.entries(run.metrics)) {
+    const before = previous?.metrics[metric];
+    const change = typeof score === 'number' && typeof before === 'number'
+      ? `${score - before >= 0 ? '+' : ''}${(score - before).toFixed(3)}`
+      : '';
+    lines.push(`${metric.padEnd(20)}${formatScore(score).padStart(8)}${change.padStart(10)}`);
+  }
+
+  lines.push('');
+  for (const result of run.results) {
+    lines.push(
+      `${result.id.padEnd(24)} rr ${formatScore(result.reciprocal_rank)}  ` +
+      `citations ${formatScore(result.citation_accuracy)}  faithfulness ${formatScore(result.faithfulness)}`
+    );
+  }
+
+  return lines.join('\n');
+}
@@ -0,0 +1,206 @@
+// Helpers for the tests and evals that run the edge functions on a local Supabase stack:
+//
+//   supabase start
+//   supabase functions serve --env-file supabase/functions/tests/test.env
+//
+// SUPABASE_URL, SUPABASE_ANON_KEY and SUPABASE_SERVICE_ROLE_KEY come from `supabase status`. Without
+// them the integration tests are skipped and the evals refuse to run. The served functions reach the mock LLM server through
+// host.docker.internal, so the tests start it on MOCK_LLM_PORT (default 8787) on all interfaces.
+
+import { createClient, type SupabaseClient, type User } from 'https://esm.sh/@supabase/supabase-js@2';
+import { startMockLLMServer, type MockLLMServer } from './mock-llm-server.ts';
+
+const SUPABASE_URL = Deno.env.get('SUPABASE_URL');
+const SUPABASE_ANON_KEY = Deno.env.get('SUPABASE_ANON_KEY');
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+
+// Pass as `ignore` to skip a test when no local stack is configured
+export const NO_LOCAL_STACK = !SUPABASE_URL || !SUPABASE_ANON_KEY || !SUPABASE_SERVICE_ROLE_KEY;
+
+export interface TestUser {
+  user: User;
+  accessToken: string;
+  // Signed in as the user, so row level security applies
+  client: SupabaseClient;
+}
+
+export function createAdminClient(): SupabaseClient {
+  return createClient(SUPABASE_URL!, SUPABASE_SERVICE_ROLE_KEY!, { auth: { persistSession: false } });
+}
+
+export function startFunctionsMock(): MockLLMServer {
+  return startMockLLMServer({ port: Number(Deno.env.get('MOCK_LLM_PORT') ?? 8787), hostname: '0.0.0.0' });
+}
+
+export async function createTestUser(admin: SupabaseClient): Promise<TestUser> {
+  const email = `test-${crypto.randomUUID()}@example.com`;
+  const password = crypto.randomUUID();
+
+  const { data: created, error: createError } = await admin.auth.admin.createUser({
+    email,
+    password,
+    email_confirm: true
+  });
+  if (createError) throw createError;
+
+  const client = createClient(SUPABASE_URL!, SUPABASE_ANON_KEY!, { auth: { persistSession: false } });
+  const { data: session, error: signInError } = await client.auth.signInWithPassword({ email, password });
+  if (signInError) throw signInError;
+
+  return { user: created.user, accessToken: session.session.access_token, client };
+}
+
+// Deleting the user cascades to their documents, conversations and jobs
+export async function deleteTestUser(admin: SupabaseClient, testUser: TestUser): Promise<void> {
+  const { data: files } = await admin.storage.from('documents').list(testUser.user.id);
+  if (files && files.length > 0) {
+    await admin.storage.from('documents').remove(files.map(file => `${testUser.user.id}/${file.name}`));
+  }
+
+  const { error } = await admin.auth.admin.deleteUser(testUser.user.id);
+  if (error) throw error;
+}
+
+const DOCUMENT_EXTENSIONS: Record<string, string> = {
+  'application/pdf': 'pdf',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': 'docx',
+  'text/plain': 'txt',
+  'text/markdown': 'md',
+  'text/html': 'html',
+};
+
+// Upload a text document the way the upload form does and return its id
+export function uploadTextDocument(testUser: TestUser, name: string, text: string): Promise<string> {
+  return uploadDocument(testUser, name, text, 'text/plain');
+}
+
+// Upload a document of any supported type and return its id
+export async function uploadDocument(
+  testUser: TestUser,
+  name: string,
+  content: string | Uint8Array,
+  mimeType: string
+): Promise<string> {
+  const extension = DOCUMENT_EXTENSIONS[mimeType];
+  const filePath = `${testUser.user.id}/${crypto.randomUUID()}.${extension}`;
+  const file = new Blob([content], { type: mimeType });
+
+  const { error: uploadError } = await testUser.client.storage.from('documents').upload(filePath, file);
+  if (uploadError) throw uploadError;
+
+  const { data, error } = await testUser.client
+    .from('documents')
+    .insert({
+      user_id: testUser.user.id,
+      name,
+      original_name: `${name}.${extension}`,
+      file_path: filePath,
+      file_size: file.size,
+      mime_type: mimeType,
+      status: 'processing'
+    })
+    .select('id')
+    .single();
+  if (error) throw error;
+
+  return data.id;
+}
+
+// Call an edge function as the user (or with just the anon key) and return the status and parsed JSON body
+export async function callFunction(
+  name: string,
+  body: unknown,
+  accessToken?: string
+): Promise<{ status: number; body: Record<string, unknown> }> {
+  const response = await fetch(`${SUPABASE_URL}/functions/v1/${name}`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'apikey': SUPABASE_ANON_KEY!,
+      // The anon key passes the gateway's JWT check but identifies no user
+      'Authorization': `Bearer ${accessToken ?? SUPABASE_ANON_KEY}`
+    },
+    // Strings are sent as they are, to test bodies that are not JSON
+    body: typeof body === 'string' ? body : JSON.stringify(body)
+  });
+
+  return { status: response.status, body: await response.json() };
+}
+
+// Poll until `check` returns a value, failing after `timeoutMs`
+export async function waitFor<T>(
+  description: string,
+  check: () => Promise<T | null | undefined>,
+  timeoutMs = 30000
+): Promise<T> {
+  const deadline = Date.now() + timeoutMs;
+
+  while (Date.now() < deadline) {
+    const value = await check();
+    if (value) return value;
+    await new Promise(resolve => setTimeout(resolve, 250));
+  }
+
+  throw new Error(`Timed out waiting for ${description}`);
+}
+
+export function waitForDocumentStatus(admin: SupabaseClient, documentId: string, statuses: string[]) {
+  return waitFor(`document ${documentId} to reach ${statuses.join(' or ')}`, async () => {
+    const { data } = await admin
+      .from('documents')
+      .select('status, error_code, error_message, embedding_model')
+      .eq('id', documentId)
+      .single();
+
+    return data && statuses.includes(data.status) ? data : null;
+  });
+}
+
+// Queue a document through process-document and wait for ingestion to finish
+export async function processDocument(
+  admin: SupabaseClient,
+  testUser: TestUser,
+  documentId: string,
+  chunking?: Record<string, unknown>
+) {
+  const { status, body } = await callFunction('process-document', { documentId, chunking }, testUser.accessToken);
+  if (status !== 202) throw new Error(`process-document answered ${status}: ${JSON.stringify(body)}`);
+
+  return await waitForDocumentStatus(admin, documentId, ['completed', 'error']);
+}
+
+export async function createConversation(testUser: TestUser): Promise<string> {
+  const { data, error } = await testUser.client
+    .from('conversations')
+    .insert({ user_id: testUser.user.id, title: 'Test conversation' })
+    .select('id')
+    .single();
+  if (error) throw error;
+
+  return data.id;
+}
+
+// Call a streaming edge function and collect its server-sent events
+export async function callStreamingFunction(
+  name: string,
+  body: unknown,
+  accessToken: string
+): Promise<{ event: string; data: Record<string, unknown> }[]> {
+  const response = await fetch(`${SUPABASE_URL}/functions/v1/${name}`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'apikey': SUPABASE_ANON_KEY!,
+      'Authorization': `Bearer ${accessToken}`
+    },
+    body: JSON.stringify(body)
+  });
+
+  const text = await response.text();
+  return text.split('\n\n').filter(Boolean).map(block => {
+    const lines = block.split('\n');
+    const event = lines.find(line => line.startsWith('event: '))?.slice('event: '.length) ?? 'message';
+    const data = lines.find(line => line.startsWith('data: '))?.slice('data: '.length) ?? '{}';
+    return { event, data: JSON.parse(data) };
+  });
+}
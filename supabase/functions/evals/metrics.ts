@@ -0,0 +1,65 @@
+// Scores for one eval question. A retrieved passage is relevant when it comes from an expected
+// document and, where the expectation names them, covers one of its pages and contains its text.
+
+export interface ExpectedPassage {
+  // Fixture id of the document
+  document: string;
+  pages?: number[];
+  // Phrase the passage must contain, compared case- and whitespace-insensitively
+  text?: string;
+}
+
+export interface RetrievedPassage {
+  // Fixture id of the document
+  document: string;
+  page_number: number;
+  end_page_number: number;
+  content: string;
+}
+
+const normalize = (text: string) => text.toLowerCase().replace(/\s+/g, ' ').trim();
+
+export function isRelevant(passage: RetrievedPassage, expected: ExpectedPassage): boolean {
+  if (passage.document !== expected.document) return false;
+  if (expected.pages && !expected.pages.some(page => page >= passage.page_number && page <= passage.end_page_number)) {
+    return false;
+  }
+  return !expected.text || normalize(passage.content).includes(normalize(expected.text));
+}
+
+// Share of the expected passages found among the first k results
+export function recallAtK(ranked: RetrievedPassage[], expected: ExpectedPassage[], k: number): number {
+  if (expected.length === 0) return 0;
+
+  const top = ranked.slice(0, k);
+  return expected.filter(passage => top.some(result => isRelevant(result, passage))).length / expected.length;
+}
+
+// 1 / rank of the first relevant result, 0 when none is relevant
+export function reciprocalRank(ranked: RetrievedPassage[], expected: ExpectedPassage[]): number {
+  const index = ranked.findIndex(result => expected.some(passage => isRelevant(result, passage)));
+  return index === -1 ? 0 : 1 / (index + 1);
+}
+
+// Share of the answer's citations that point at a relevant passage; null when the answer cites nothing
+export function citationAccuracy(cited: RetrievedPassage[], expected: ExpectedPassage[]): number | null {
+  if (cited.length === 0) return null;
+  return cited.filter(result => expected.some(passage => isRelevant(result, passage))).length / cited.length;
+}
+
+// Read the judge's {"score": 0-1} verdict
+export function parseJudgeScore(response: string): number {
+  const object = response.match(/\{[\s\S]*\}/)?.[0];
+  const score = object ? JSON.parse(object).score : undefined;
+
+  if (typeof score !== 'number' || score < 0 || score > 1) {
+    throw new Error('Judge returned no score between 0 and 1');
+  }
+  return score;
+}
+
+// Mean of the scores that could be computed, null when there are none
+export function average(scores: (number | null)[]): number | null {
+  const known = scores.filter((score): score is number => score !== null);
+  return known.length > 0 ? known.reduce((sum, score) => sum + score, 0) / known.length : null;
+}
@@ -0,0 +1,217 @@
+// A local stand-in for the Gemini and OpenAI APIs and a cross-encoder reranker. Point GEMINI_BASE_URL
+// at `${url}/v1beta`, OPENAI_BASE_URL at `${url}/v1` and a cross-encoder RERANKER at `${url}/v1`.
+// Answers, embeddings and scores are deterministic, and failures, delays and broken streams can be
+// scripted per request path.
+
+export interface RecordedRequest {
+  path: string;
+  body: Record<string, unknown>;
+}
+
+interface ScriptedBehavior {
+  match: string;
+  times: number;
+  status?: number;
+  headers?: Record<string, string>;
+  delayMs?: number;
+  breakStream?: boolean;
+}
+
+export interface MockLLMServer {
+  url: string;
+  requests: RecordedRequest[];
+  // Fail the next `times` requests whose path contains `match`
+  failNext(match: string, status: number, times?: number, headers?: Record<string, string>): void;
+  // Delay the next `times` matching requests before responding
+  delayNext(match: string, delayMs: number, times?: number): void;
+  // Send one token of the next matching streamed answer, then break the connection
+  breakStreamNext(match: string): void;
+  setAnswer(text: string): void;
+  // Answer prompts containing `match` with `text` instead of the default answer
+  answerWhen(match: string, text: string): void;
+  requestCount(match: string): number;
+  close(): Promise<void>;
+}
+
+export const DEFAULT_MOCK_ANSWER = 'The document says the mock service is working [1].';
+
+// Hashed bag of words, normalized: texts sharing words get similar vectors
+export function mockEmbedding(text: string, dimensions = 768): number[] {
+  const vector = new Array(dimensions).fill(0);
+
+  for (const word of text.toLowerCase().match(/[a-z0-9]+/g) ?? []) {
+    let hash = 0;
+    for (const char of word) {
+      hash = (hash * 31 + char.charCodeAt(0)) >>> 0;
+    }
+    vector[hash % dimensions] += 1;
+  }
+
+  // Cosine distance is undefined for a zero vector
+  if (vector.every(value => value === 0)) vector[0] = 1;
+
+  const norm = Math.hypot(...vector);
+  return vector.map(value => value / norm);
+}
+
+const json = (body: unknown, status = 200, headers: Record<string, string> = {}) =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json', ...headers } });
+
+// Split an answer into a few streamed tokens
+const toTokens = (text: string) => text.match(/\S+\s*/g) ?? [text];
+
+function eventStream(events: string[], breakAfterFirst: boolean): Response {
+  const encoder = new TextEncoder();
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      for (const [index, data] of events.entries()) {
+        controller.enqueue(encoder.encode(`data: ${data}\n\n`));
+        if (breakAfterFirst && index === 0) {
+          // Erroring drops queued chunks, so let the first token reach the client first
+          await new Promise(resolve => setTimeout(resolve, 50));
+          controller.error(new Error('Mock stream broken'));
+          return;
+        }
+      }
+      controller.close();
+    }
+  });
+
+  return new Response(body, { headers: { 'Content-Type': 'text/event-stream' } });
+}
+
+export function startMockLLMServer(options: { port?: number; hostname?: string } = {}): MockLLMServer {
+  const requests: RecordedRequest[] = [];
+  const behaviors: ScriptedBehavior[] = [];
+  let answer = DEFAULT_MOCK_ANSWER;
+  const promptAnswers: { match: string; text: string }[] = [];
+
+  const answerFor = (body: Record<string, unknown>) => {
+    const prompt = JSON.stringify(body);
+    return promptAnswers.find(candidate => prompt.includes(candidate.match))?.text ?? answer;
+  };
+
+  // Consume the first scripted behavior that matches the path
+  const takeBehavior = (path: string): ScriptedBehavior | undefined => {
+    const behavior = behaviors.find(candidate => path.includes(candidate.match) && candidate.times > 0);
+    if (behavior) behavior.times--;
+    return behavior;
+  };
+
+  const handle = async (req: Request): Promise<Response> => {
+    const { pathname } = new URL(req.url);
+    const body = req.method === 'POST' ? await req.json() : {};
+    requests.push({ path: pathname, body });
+
+    const behavior = takeBehavior(pathname);
+    if (behavior?.delayMs) {
+      await new Promise(resolve => setTimeout(resolve, behavior.delayMs));
+    }
+    if (behavior?.status) {
+      return json({ error: { message: `Mock failure ${behavior.status}` } }, behavior.status, behavior.headers);
+    }
+    const breakStream = !!behavior?.breakStream;
+
+    // Gemini: /v1beta/models/{model}:{method}
+    const geminiCall = pathname.match(/\/models\/([^/:]+):(\w+)$/);
+    if (geminiCall) {
+      const [, , method] = geminiCall;
+
+      if (method === 'batchEmbedContents') {
+        const batch = body.requests as { content: { parts: { text: string }[] } }[];
+        return json({ embeddings: batch.map(item => ({ values: mockEmbedding(item.content.parts[0].text) })) });
+      }
+      if (method === 'generateContent') {
+        return json({ candidates: [{ content: { parts: [{ text: answerFor(body) }] } }] });
+      }
+      if (method === 'streamGenerateContent') {
+        return eventStream(
+          toTokens(answerFor(body)).map(text => JSON.stringify({ candidates: [{ content: { parts: [{ text }] } }] })),
+          breakStream
+        );
+      }
+    }
+
+    // Cohere/Jina style cross-encoder: scores are the passages' similarity to the query, best first
+    if (pathname.endsWith('/rerank')) {
+      const queryEmbedding = mockEmbedding(body.query as string);
+      const documents = body.documents as string[];
+      const results = documents.map((document, index) => ({
+        index,
+        relevance_score: mockEmbedding(document).reduce((sum, value, i) => sum + value * queryEmbedding[i], 0)
+      }));
+      return json({ results: results.sort((a, b) => b.relevance_score - a.relevance_score) });
+    }
+
+    // OpenAI and OpenAI-compatible servers
+    if (pathname.endsWith('/embeddings')) {
+      const input = body.input as string[];
+      const dimensions = (body.dimensions as number | undefined) ?? 768;
+      return json({ data: input.map((text, index) => ({ index, embedding: mockEmbedding(text, dimensions) })) });
+    }
+    if (pathname.endsWith('/chat/completions')) {
+      if (!body.stream) {
+        return json({ choices: [{ message: { content: answerFor(body) } }] });
+      }
+      return eventStream(
+        [...toTokens(answerFor(body)).map(content => JSON.stringify({ choices: [{ delta: { content } }] })), '[DONE]'],
+        breakStream
+      );
+    }
+
+    return json({ error: { message: `No mock route for ${pathname}` } }, 404);
+  };
+
+  const server = Deno.serve({
+    port: options.port ?? 0,
+    hostname: options.hostname ?? '127.0.0.1',
+    onListen: () => {}
+  }, handle);
+
+  return {
+    url: `http://localhost:${server.addr.port}`,
+    requests,
+    failNext(match, status, times = 1, headers) {
+      behaviors.push({ match, status, times, headers });
+    },
+    delayNext(match, delayMs, times = 1) {
+      behaviors.push({ match, delayMs, times });
+    },
+    breakStreamNext(match) {
+      behaviors.push({ match, breakStream: true, times: 1 });
+    },
+    setAnswer(text) {
+      answer = text;
+    },
+    answerWhen(match, text) {
+      promptAnswers.push({ match, text });
+    },
+    requestCount(match) {
+      return requests.filter(request => request.path.includes(match)).length;
+    },
+    close: () => server.shutdown()
+  };
+}
+
+// Run `fn` with a fresh mock server and the given environment, restoring both afterwards
+export async function withMockLLMServer(
+  env: (url: string) => Record<string, string>,
+  fn: (mock: MockLLMServer) => Promise<void>,
+  options: { port?: number; hostname?: string } = {}
+): Promise<void> {
+  const mock = startMockLLMServer(options);
+  const overrides = env(mock.url);
+  const previous = Object.fromEntries(Object.keys(overrides).map(name => [name, Deno.env.get(name)]));
+
+  for (const [name, value] of Object.entries(overrides)) Deno.env.set(name, value);
+
+  try {
+    await fn(mock);
+  } finally {
+    for (const [name, value] of Object.entries(previous)) {
+      if (value === undefined) Deno.env.delete(name);
+      else Deno.env.set(name, value);
+    }
+    await mock.close();
+  }
+}
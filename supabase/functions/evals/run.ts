@@ -0,0 +1,51 @@
+// Run an eval fixture against the local stack, print the scores next to the previous run's and store
+// them in eval_runs:
+//
+//   supabase start
+//   supabase functions serve --env-file supabase/functions/tests/test.env
+//
+//   # In another shell, with the URL and keys printed by `supabase status`
+//   SUPABASE_URL=http://127.0.0.1:54321 SUPABASE_ANON_KEY=... SUPABASE_SERVICE_ROLE_KEY=... \
+//     deno run --allow-net --allow-env --allow-read supabase/functions/evals/run.ts --mock
+//
+//   --fixture <name>  fixture set in evals/fixtures (default espresso)
+//   --label <text>    stored with the run, e.g. the change being measured
+//   --mock            serve the mock LLM the test.env functions talk to, and judge with it. Without it
+//                     the functions use their own models and the judge uses EVAL_JUDGE_PROVIDERS, or
+//                     LLM_PROVIDERS when that is not set.
+
+import { parse } from 'https://deno.land/std@0.168.0/flags/mod.ts';
+import { getProviderChain } from '../_shared/llm-providers.ts';
+import { NO_LOCAL_STACK, createAdminClient, createTestUser, deleteTestUser, startFunctionsMock } from './local-stack.ts';
+import { createMockJudge, formatReport, loadFixture, runEval, saveEvalRun } from './harness.ts';
+
+const args = parse(Deno.args, {
+  string: ['fixture', 'label'],
+  boolean: ['mock'],
+  default: { fixture: 'espresso' }
+});
+
+if (NO_LOCAL_STACK) {
+  console.error('❌ Set SUPABASE_URL, SUPABASE_ANON_KEY and SUPABASE_SERVICE_ROLE_KEY (see `supabase status`)');
+  Deno.exit(1);
+}
+
+const admin = createAdminClient();
+const mock = args.mock ? startFunctionsMock() : null;
+const judgeProviders = Deno.env.get('EVAL_JUDGE_PROVIDERS');
+const judge = mock ? createMockJudge(mock) : getProviderChain(judgeProviders ? JSON.parse(judgeProviders) : undefined);
+
+const fixture = await loadFixture(args.fixture);
+const testUser = await createTestUser(admin);
+
+try {
+  const run = await runEval({ admin, testUser, fixture, judge, label: args.label ?? null, config: { mock: args.mock } });
+  const { previous } = await saveEvalRun(admin, run);
+  console.log(`\n${formatReport(run, previous)}`);
+} finally {
+  await deleteTestUser(admin, testUser);
+  await mock?.close();
+}
+
+// The Supabase clients keep auth timers running
+Deno.exit(0);
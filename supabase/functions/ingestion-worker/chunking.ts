@@ -0,0 +1,313 @@
+// Structure-aware chunking. The text keeps its line structure: headings open sections, lists and
+// tables are only split between items and rows, and paragraphs between sentences. A chunk never
+// spans two sections and records the headings of its section, e.g. ["3 Pricing", "3.2 Discounts"].
+
+export interface TextChunk {
+  content: string;
+  startIndex: number;
+  endIndex: number;
+  // Headings of the enclosing sections, outermost first
+  headingPath: string[];
+}
+
+interface Span {
+  start: number;
+  end: number;
+}
+
+interface Block extends Span {
+  kind: 'paragraph' | 'list' | 'table';
+  // Where the block may be split when it does not fit in one chunk: sentences, list items or table rows
+  units: Span[];
+}
+
+interface Section {
+  headingPath: string[];
+  blocks: Block[];
+}
+
+interface Line extends Span {
+  text: string;
+}
+
+const MARKDOWN_HEADING = /^(#{1,6})\s+(.+?)(?:\s+#+)?$/;
+// "3 Pricing", "3.2 Discounts" or "3.2. Discounts"
+const NUMBERED_HEADING = /^(\d{1,2}(?:\.\d{1,2})*)(\.?)\s+\p{Lu}/u;
+const MAX_HEADING_LENGTH = 80;
+const LIST_ITEM = /^(?:[-*+•▪◦]|\d{1,3}[.)])\s+\S/;
+const TABLE_ROW = /^\|.*\|$|\S\t+\S/;
+// Whitespace after a sentence end, optionally behind a closing quote or bracket
+const SENTENCE_BREAK = /(?<=[.!?]["')\]]?)\s+/g;
+
+export const HEADING_PATH_SEPARATOR = ' > ';
+
+export function formatHeadingPath(headingPath: string[]): string {
+  return headingPath.join(HEADING_PATH_SEPARATOR);
+}
+
+// Text sent to the embedding model: the section breadcrumb gives a chunk the context its body lacks
+export function embeddingInput(content: string, headingPath?: string | null): string {
+  return headingPath ? `${headingPath}\n\n${content}` : content;
+}
+
+function splitLines(text: string): Line[] {
+  const lines: Line[] = [];
+  let start = 0;
+
+  while (start <= text.length) {
+    const newline = text.indexOf('\n', start);
+    const end = newline === -1 ? text.length : newline;
+    lines.push({ start, end, text: text.slice(start, end) });
+    start = end + 1;
+  }
+
+  return lines;
+}
+
+// Narrow a span so it starts and ends on non-whitespace
+function trimSpan(text: string, span: Span): Span {
+  let { start, end } = span;
+  while (start < end && /\s/.test(text[start])) start++;
+  while (end > start && /\s/.test(text[end - 1])) end--;
+  return { start, end };
+}
+
+// Markdown headings anywhere; numbered headings only where a new block may start, since a wrapped
+// line of a PDF paragraph can also begin with a number. "1. Item" is an ordered list item.
+function parseHeading(line: string, startsBlock: boolean): { level: number; title: string } | null {
+  const markdown = line.match(MARKDOWN_HEADING);
+  if (markdown) return { level: markdown[1].length, title: markdown[2].trim() };
+
+  if (!startsBlock || line.length > MAX_HEADING_LENGTH || /[.,;:!?]$/.test(line)) return null;
+
+  const numbered = line.match(NUMBERED_HEADING);
+  if (!numbered) return null;
+
+  const level = numbered[1].split('.').length;
+  if (level === 1 && numbered[2]) return null;
+
+  return { level, title: line };
+}
+
+function splitSentences(text: string, span: Span): Span[] {
+  const units: Span[] = [];
+  let start = span.start;
+
+  for (const match of text.slice(span.start, span.end).matchAll(SENTENCE_BREAK)) {
+    units.push({ start, end: span.start + match.index! });
+    start = span.start + match.index! + match[0].length;
+  }
+  units.push({ start, end: span.end });
+
+  return units;
+}
+
+// Break a unit longer than a chunk at whitespace, or mid-word when it has none
+function splitOversized(text: string, unit: Span, maxChunkSize: number): Span[] {
+  const pieces: Span[] = [];
+  let start = unit.start;
+
+  while (unit.end - start > maxChunkSize) {
+    const window = text.slice(start, start + maxChunkSize + 1);
+    const breakAt = window.search(/\s+\S*$/);
+    const end = breakAt > 0 ? start + breakAt : start + maxChunkSize;
+
+    pieces.push({ start, end });
+    start = trimSpan(text, { start: end, end: unit.end }).start;
+  }
+  pieces.push({ start, end: unit.end });
+
+  return pieces;
+}
+
+// Group lines into sections of paragraph, list and table blocks
+function parseSections(text: string): Section[] {
+  const sections: Section[] = [{ headingPath: [], blocks: [] }];
+  const headings: { level: number; title: string }[] = [];
+  let block: Block | null = null;
+  let previousLine = '';
+
+  const closeBlock = () => {
+    if (!block) return;
+    const span = trimSpan(text, block);
+    const units = block.kind === 'paragraph'
+      ? splitSentences(text, span)
+      : block.units.map(unit => trimSpan(text, unit));
+    sections[sections.length - 1].blocks.push({ ...span, kind: block.kind, units });
+    block = null;
+  };
+
+  for (const line of splitLines(text)) {
+    const trimmed = line.text.trim();
+    const startsBlock = !block || previousLine === '' || /[.!?:]$/.test(previousLine);
+    previousLine = trimmed;
+
+    if (!trimmed) {
+      closeBlock();
+      continue;
+    }
+
+    if (TABLE_ROW.test(trimmed)) {
+      if (block?.kind !== 'table') {
+        closeBlock();
+        block = { kind: 'table', start: line.start, end: line.end, units: [] };
+      }
+      block.end = line.end;
+      block.units.push({ start: line.start, end: line.end });
+      continue;
+    }
+
+    const heading = parseHeading(trimmed, startsBlock);
+    if (heading) {
+      closeBlock();
+      while (headings.length > 0 && headings[headings.length - 1].level >= heading.level) headings.pop();
+      headings.push(heading);
+      sections.push({ headingPath: headings.map(entry => entry.title), blocks: [] });
+      continue;
+    }
+
+    if (LIST_ITEM.test(trimmed)) {
+      if (block?.kind !== 'list') {
+        closeBlock();
+        block = { kind: 'list', start: line.start, end: line.end, units: [] };
+      }
+      block.end = line.end;
+      block.units.push({ start: line.start, end: line.end });
+      continue;
+    }
+
+    // Other lines continue the current list item or paragraph
+    if (block?.kind === 'list') {
+      block.end = line.end;
+      block.units[block.units.length - 1].end = line.end;
+    } else if (block?.kind === 'paragraph') {
+      block.end = line.end;
+    } else {
+      closeBlock();
+      block = { kind: 'paragraph', start: line.start, end: line.end, units: [] };
+    }
+  }
+  closeBlock();
+
+  return sections.filter(section => section.blocks.length > 0);
+}
+
+// Pack a section's blocks into chunks of at most maxChunkSize characters. A block that fits in a
+// chunk starts a new one rather than being split; consecutive chunks share up to `overlap`
+// characters of whole units.
+function packSection(text: string, section: Section, maxChunkSize: number, overlap: number): TextChunk[] {
+  const chunks: TextChunk[] = [];
+  let units: Span[] = [];
+
+  const emit = () => {
+    const start = units[0].start;
+    const end = units[units.length - 1].end;
+    chunks.push({ content: text.slice(start, end), startIndex: start, endIndex: end, headingPath: section.headingPath });
+  };
+
+  // Emit the current chunk and start the next one with its trailing units, leaving room up to `end`
+  const flushBefore = (end: number) => {
+    emit();
+
+    const lastEnd = units[units.length - 1].end;
+    let first = units.length;
+    while (first > 1 && lastEnd - units[first - 1].start <= overlap) first--;
+
+    units = units.slice(first);
+    while (units.length > 0 && end - units[0].start > maxChunkSize) units.shift();
+  };
+
+  for (const block of section.blocks) {
+    if (units.length > 0 && block.end - block.start <= maxChunkSize && block.end - units[0].start > maxChunkSize) {
+      flushBefore(block.end);
+    }
+
+    for (const unit of block.units.flatMap(unit => splitOversized(text, unit, maxChunkSize))) {
+      if (units.length > 0 && unit.end - units[0].start > maxChunkSize) {
+        flushBefore(unit.end);
+      }
+      units.push(unit);
+    }
+  }
+
+  if (units.length > 0) emit();
+
+  return chunks;
+}
+
+export function chunkText(text: string, maxChunkSize: number = 1000, overlap: number = 200): TextChunk[] {
+  if (!text) return [];
+
+  return parseSections(text).flatMap(section => packSection(text, section, maxChunkSize, overlap));
+}
+
+export interface PageSpan {
+  page: number;
+  start: number;
+  end: number;
+  // Offset of each of the page's characters in its whitespace-collapsed text, the coordinates
+  // source previews highlight in (see src/lib/pdf-highlight.ts)
+  collapsedOffsets: Uint32Array;
+}
+
+function collapsedOffsets(pageText: string): Uint32Array {
+  const offsets = new Uint32Array(pageText.length + 1);
+  let offset = 0;
+  let pendingSpace = false;
+
+  for (let i = 0; i < pageText.length; i++) {
+    if (/\s/.test(pageText[i])) {
+      // Leading whitespace collapses away entirely
+      if (offset > 0) pendingSpace = true;
+      offsets[i] = offset + (pendingSpace ? 1 : 0);
+      continue;
+    }
+
+    if (pendingSpace) {
+      offset += 1;
+      pendingSpace = false;
+    }
+    offsets[i] = offset++;
+  }
+  offsets[pageText.length] = offset;
+
+  return offsets;
+}
+
+// Join per-page text, keeping its line structure, and remember the span each page occupies.
+// Pages are separated by a blank line so no paragraph runs across a page break.
+export function joinPages(pages: string[]): { text: string; spans: PageSpan[] } {
+  const spans: PageSpan[] = [];
+  let text = '';
+
+  pages.forEach((pageText, index) => {
+    const page = pageText.replace(/\r\n?/g, '\n');
+    if (!page.trim()) return;
+
+    if (text) text += '\n\n';
+    spans.push({ page: index + 1, start: text.length, end: text.length + page.length, collapsedOffsets: collapsedOffsets(page) });
+    text += page;
+  });
+
+  return { text, spans };
+}
+
+// Resolve a character offset in the joined text to its page and the offset within that page's
+// whitespace-collapsed text
+export function locateOffset(spans: PageSpan[], offset: number): { page: number; offset: number } {
+  let low = 0;
+  let high = spans.length - 1;
+
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (spans[mid].start <= offset) {
+      low = mid;
+    } else {
+      high = mid - 1;
+    }
+  }
+
+  const span = spans[low];
+  const pageOffset = Math.min(Math.max(offset - span.start, 0), span.end - span.start);
+  return { page: span.page, offset: span.collapsedOffsets[pageOffset] };
+}
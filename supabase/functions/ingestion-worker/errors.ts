@@ -0,0 +1,9 @@
+import type { DocumentErrorCode } from '../_shared/document-status.ts';
+
+// An ingestion failure with the structured code recorded on the document
+export class IngestionError extends Error {
+  constructor(public code: DocumentErrorCode, message: string) {
+    super(message);
+    this.name = 'IngestionError';
+  }
+}
@@ -0,0 +1,147 @@
+import { extractText, getDocumentProxy } from 'https://esm.sh/unpdf@1.1.0';
+import mammoth from 'https://esm.sh/mammoth@1.8.0';
+import { DOMParser, type Element, type Node } from 'https://deno.land/x/deno_dom@v0.1.45/deno-dom-wasm.ts';
+import { IngestionError } from './errors.ts';
+
+export interface ExtractedDocument {
+  totalPages: number;
+  // Text of each page, in order; formats without pagination yield a single page
+  pages: string[];
+  method: string;
+}
+
+export type Extractor = (data: Uint8Array) => Promise<ExtractedDocument>;
+
+const decodeText = (data: Uint8Array) => new TextDecoder('utf-8').decode(data);
+
+const ELEMENT_NODE = 1;
+const TEXT_NODE = 3;
+
+// Tags whose content starts and ends a paragraph
+const BLOCK_TAGS = new Set([
+  'address', 'article', 'aside', 'blockquote', 'br', 'caption', 'dd', 'div', 'dl', 'dt', 'figcaption', 'figure',
+  'footer', 'header', 'hr', 'main', 'nav', 'ol', 'p', 'pre', 'section', 'table', 'tbody', 'tfoot', 'thead', 'ul',
+]);
+
+const collapsedText = (element: Element) => element.textContent.replace(/\s+/g, ' ').trim();
+
+// Render an HTML body as Markdown-like text (headings, "- " list items, "| a | b |" table rows)
+// so the chunker sees the document's structure rather than one run of text
+function renderHtmlText(body: Element): string {
+  const lines: { text: string; kind: 'paragraph' | 'item' | 'row' }[] = [];
+  let inline = '';
+
+  const flushInline = () => {
+    const text = inline.replace(/\s+/g, ' ').trim();
+    if (text) lines.push({ text, kind: 'paragraph' });
+    inline = '';
+  };
+
+  const visit = (node: Node) => {
+    if (node.nodeType === TEXT_NODE) {
+      inline += node.textContent;
+      return;
+    }
+    if (node.nodeType !== ELEMENT_NODE) return;
+
+    const element = node as Element;
+    const tag = element.tagName.toLowerCase();
+    const heading = tag.match(/^h([1-6])$/);
+
+    if (heading) {
+      flushInline();
+      lines.push({ text: `${'#'.repeat(Number(heading[1]))} ${collapsedText(element)}`, kind: 'paragraph' });
+    } else if (tag === 'li') {
+      // Nested lists are folded into their parent item
+      flushInline();
+      lines.push({ text: `- ${collapsedText(element)}`, kind: 'item' });
+    } else if (tag === 'tr') {
+      flushInline();
+      lines.push({ text: `| ${Array.from(element.children).map(collapsedText).join(' | ')} |`, kind: 'row' });
+    } else if (BLOCK_TAGS.has(tag)) {
+      flushInline();
+      element.childNodes.forEach(visit);
+      flushInline();
+    } else {
+      element.childNodes.forEach(visit);
+    }
+  };
+
+  visit(body);
+  flushInline();
+
+  // Items of one list and rows of one table stay on adjacent lines; blocks are separated by a blank line
+  return lines
+    .map((line, index) => {
+      if (index === 0) return line.text;
+      const adjacent = line.kind !== 'paragraph' && line.kind === lines[index - 1].kind;
+      return (adjacent ? '\n' : '\n\n') + line.text;
+    })
+    .join('');
+}
+
+function parseHtmlBody(html: string): Element | null {
+  const document = new DOMParser().parseFromString(html, 'text/html');
+  if (!document?.body) return null;
+
+  document.body.querySelectorAll('script, style, noscript, template').forEach(node => node.parentNode?.removeChild(node));
+  return document.body;
+}
+
+// Use unpdf library for proper PDF text extraction, one string per page
+const extractPdf: Extractor = async (data) => {
+  console.log('📋 Loading PDF document...');
+  const pdf = await getDocumentProxy(data);
+
+  console.log('📝 Extracting text from PDF...');
+  const { totalPages, text } = await extractText(pdf, { mergePages: false });
+  return { totalPages, pages: text, method: 'unpdf' };
+};
+
+// Word documents carry no reliable page layout, so the body is treated as a single page.
+// Converting through HTML keeps the headings, lists and tables the chunker splits along.
+const extractDocx: Extractor = async (data) => {
+  console.log('📝 Extracting text from DOCX...');
+  const { value, messages } = await mammoth.convertToHtml({ arrayBuffer: data.buffer });
+  if (messages.length > 0) {
+    console.log('⚠️ DOCX extraction warnings:', messages);
+  }
+  const body = parseHtmlBody(value);
+  return { totalPages: 1, pages: [body ? renderHtmlText(body) : ''], method: 'mammoth' };
+};
+
+// Markdown is indexed as written so headings and lists stay readable in citations
+const extractMarkdown: Extractor = async (data) => {
+  console.log('📝 Reading Markdown document...');
+  return { totalPages: 1, pages: [decodeText(data)], method: 'markdown' };
+};
+
+// Keep the visible text of the page body, dropping scripts, styles and other non-content nodes
+const extractHtml: Extractor = async (data) => {
+  console.log('📝 Extracting text from HTML...');
+  const body = parseHtmlBody(decodeText(data));
+  return { totalPages: 1, pages: [body ? renderHtmlText(body) : ''], method: 'deno-dom' };
+};
+
+const extractPlainText: Extractor = async (data) => {
+  console.log('📝 Reading plain text document...');
+  return { totalPages: 1, pages: [decodeText(data)], method: 'text' };
+};
+
+// Registry of extractors keyed by documents.mime_type
+const extractors: Record<string, Extractor> = {
+  'application/pdf': extractPdf,
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': extractDocx,
+  'text/markdown': extractMarkdown,
+  'text/x-markdown': extractMarkdown,
+  'text/html': extractHtml,
+  'text/plain': extractPlainText,
+};
+
+export function getExtractor(mimeType: string): Extractor {
+  const extractor = extractors[mimeType?.split(';')[0].trim().toLowerCase()];
+  if (!extractor) {
+    throw new IngestionError('UNSUPPORTED_TYPE', `Unsupported document type: ${mimeType || 'unknown'}`);
+  }
+  return extractor;
+}
@@ -0,0 +1,523 @@
+import "https://deno.land/x/xhr@0.1.0/mod.ts";
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { getExtractor } from './extractors.ts';
+import { chunkText, embeddingInput, formatHeadingPath, joinPages, locateOffset } from './chunking.ts';
+import { IngestionError } from './errors.ts';
+import type { DocumentErrorCode } from '../_shared/document-status.ts';
+import { isServiceRoleRequest } from '../_shared/auth.ts';
+import { runInBackground } from '../_shared/background.ts';
+import { handleCorsPreflight } from '../_shared/cors.ts';
+import { errorResponse, jsonResponse, unauthorized } from '../_shared/http.ts';
+import { createServiceClient, type SupabaseClient } from '../_shared/supabase.ts';
+import { resolveChunkingOptions, type ChunkingOptions } from '../_shared/chunking-options.ts';
+import { getDefaultEmbeddingModel, getEmbeddingProvider, type EmbeddingProvider } from '../_shared/embeddings.ts';
+import { countTokens } from '../_shared/tokens.ts';
+
+const EMBEDDING_CONCURRENCY = Number(Deno.env.get('EMBEDDING_CONCURRENCY') ?? 3);
+
+// Run an async worker over items with at most `limit` in flight at once. After the first failure no
+// new items are started, and it is thrown once the items already in flight have settled, so nothing
+// keeps writing after the caller has failed the job.
+async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  worker: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let nextIndex = 0;
+  let failed = false;
+  let firstError: unknown;
+
+  const runners = Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, async () => {
+    while (!failed && nextIndex < items.length) {
+      const index = nextIndex++;
+      try {
+        results[index] = await worker(items[index], index);
+      } catch (error) {
+        if (!failed) firstError = error;
+        failed = true;
+      }
+    }
+  });
+
+  await Promise.all(runners);
+  if (failed) throw firstError;
+  return results;
+}
+
+type IngestionStage = 'download' | 'extract' | 'chunk' | 'embed' | 'store';
+
+interface StageProgress {
+  done: number;
+  total: number;
+}
+
+interface IngestionJob {
+  id: string;
+  document_id: string;
+  user_id: string;
+  status: 'queued' | 'running' | 'completed' | 'failed';
+  // 'reembed' jobs move an already ingested document to another embedding model
+  kind: 'ingest' | 'reembed';
+  stage: IngestionStage;
+  progress: Partial<Record<IngestionStage, StageProgress>>;
+  attempts: number;
+  max_attempts: number;
+  options: { chunking?: Partial<ChunkingOptions>; embeddingModel?: string };
+}
+
+// Error code recorded when a stage fails without a more specific IngestionError
+const STAGE_ERROR_CODES: Record<IngestionStage, DocumentErrorCode> = {
+  download: 'DOWNLOAD_FAILED',
+  extract: 'EXTRACTION_FAILED',
+  chunk: 'STORAGE_FAILED',
+  embed: 'EMBEDDING_FAILED',
+  store: 'STORAGE_FAILED',
+};
+
+// Failures that another attempt cannot fix
+const PERMANENT_ERROR_CODES: DocumentErrorCode[] = ['UNSUPPORTED_TYPE', 'NO_TEXT', 'PROCESSING_INTERRUPTED'];
+
+const WORKER_ID = crypto.randomUUID();
+// Stop claiming new jobs after this long so a run never outlives the edge function limit
+const WORKER_TIME_BUDGET_MS = Number(Deno.env.get('INGESTION_WORKER_TIME_BUDGET_MS') ?? 120000);
+// Base delay before a failed job is retried, doubled for every attempt
+const JOB_RETRY_DELAY_MS = 30000;
+const CHUNK_INSERT_BATCH_SIZE = 500;
+
+// Tracks a job's stage and progress, serializing writes so progress never goes backwards
+function createProgressReporter(supabaseClient: SupabaseClient, job: IngestionJob) {
+  let pending = Promise.resolve();
+
+  return (stage: IngestionStage, done: number, total: number): Promise<void> => {
+    job.stage = stage;
+    job.progress = { ...job.progress, [stage]: { done, total } };
+    const update = { stage, progress: job.progress, locked_at: new Date().toISOString() };
+
+    pending = pending.then(async () => {
+      const { error } = await supabaseClient
+        .from('ingestion_jobs')
+        .update(update)
+        .eq('id', job.id);
+
+      if (error) {
+        console.error('❌ Failed to record job progress:', error);
+      }
+    });
+
+    return pending;
+  };
+}
+
+function isStageComplete(job: IngestionJob, stage: IngestionStage): boolean {
+  const progress = job.progress[stage];
+  return !!progress && progress.done >= progress.total;
+}
+
+// Download, extract and chunk the document, storing chunk rows without embeddings
+async function prepareChunks(
+  supabaseClient: SupabaseClient,
+  job: IngestionJob,
+  document: { id: string; user_id: string; file_path: string; mime_type: string },
+  reportProgress: ReturnType<typeof createProgressReporter>
+): Promise<number> {
+  await reportProgress('download', 0, 1);
+  const { data: fileData, error: downloadError } = await supabaseClient.storage
+    .from('documents')
+    .download(document.file_path);
+
+  if (downloadError) throw downloadError;
+  await reportProgress('download', 1, 1);
+
+  // Pick the text extractor registered for the document's MIME type
+  await reportProgress('extract', 0, 1);
+  const extractor = getExtractor(document.mime_type);
+  console.log(`📄 Processing ${document.mime_type} document...`);
+
+  const fileBuffer = await fileData.arrayBuffer();
+  const { totalPages, pages: pageTexts, method: extractionMethod } = await extractor(new Uint8Array(fileBuffer));
+  const { text, spans } = joinPages(pageTexts);
+
+  console.log(`📄 Document processed with ${extractionMethod}: ${totalPages} pages, ${text.length} characters`);
+
+  if (text.replace(/\s+/g, '').length < 10) {
+    throw new IngestionError('NO_TEXT', 'No readable text found in the document. It may be empty, image-based or corrupted.');
+  }
+
+  const { error: pagesError } = await supabaseClient
+    .from('documents')
+    .update({ total_pages: totalPages })
+    .eq('id', document.id);
+
+  if (pagesError) throw pagesError;
+  await reportProgress('extract', totalPages, totalPages);
+
+  // Split text into chunks along its sections, lists and tables
+  const { options: chunking, error: chunkingError } = resolveChunkingOptions(job.options?.chunking);
+  if (chunkingError) {
+    throw new IngestionError('EXTRACTION_FAILED', `Invalid chunking options: ${chunkingError}`);
+  }
+
+  const textChunks = chunkText(text, chunking.maxChunkSize, chunking.overlap);
+  console.log(`🔢 Created ${textChunks.length} chunks from text`, chunking);
+  await reportProgress('chunk', 0, textChunks.length);
+
+  // Map each chunk's character range back to the pages it spans
+  const rows = textChunks.map((chunkData, index) => {
+    const start = locateOffset(spans, chunkData.startIndex);
+    const end = locateOffset(spans, Math.max(chunkData.endIndex - 1, chunkData.startIndex));
+
+    return {
+      document_id: document.id,
+      user_id: document.user_id,  // Link user ID from the document
+      chunk_index: index,
+      content: chunkData.content,
+      page_number: start.page,
+      end_page_number: end.page,
+      start_offset: start.offset,
+      end_offset: end.offset + 1,
+      token_count: countTokens(chunkData.content),
+      metadata: chunkData.headingPath.length > 0 ? { heading_path: formatHeadingPath(chunkData.headingPath) } : {},
+    };
+  });
+
+  // Replace whatever a previous, interrupted run left behind so chunks are never duplicated
+  const { error: deleteError } = await supabaseClient
+    .from('document_chunks')
+    .delete()
+    .eq('document_id', document.id);
+
+  if (deleteError) throw deleteError;
+
+  for (let i = 0; i < rows.length; i += CHUNK_INSERT_BATCH_SIZE) {
+    const batch = rows.slice(i, i + CHUNK_INSERT_BATCH_SIZE);
+    const { error: insertError } = await supabaseClient
+      .from('document_chunks')
+      .insert(batch);
+
+    if (insertError) {
+      console.error('❌ Failed to insert chunk batch:', insertError);
+      throw insertError;
+    }
+
+    await reportProgress('chunk', i + batch.length, rows.length);
+  }
+
+  return rows.length;
+}
+
+// Resolve the job's embedding model, pinning the default on the job so every attempt uses the same model
+async function resolveEmbeddingProvider(supabaseClient: SupabaseClient, job: IngestionJob): Promise<EmbeddingProvider> {
+  if (!job.options?.embeddingModel) {
+    job.options = { ...job.options, embeddingModel: getDefaultEmbeddingModel() };
+
+    const { error } = await supabaseClient
+      .from('ingestion_jobs')
+      .update({ options: job.options })
+      .eq('id', job.id);
+
+    if (error) throw error;
+  }
+
+  const provider = getEmbeddingProvider(job.options.embeddingModel!);
+  if (typeof provider === 'string') {
+    throw new IngestionError('EMBEDDING_FAILED', `Embedding model ${job.options.embeddingModel} is not available: ${provider}`);
+  }
+
+  return provider;
+}
+
+// Embed every stored chunk that still needs an embedding from the provider's model. Ingestion fills
+// `embedding` directly; re-embedding fills `pending_embedding` so the current embeddings keep serving searches.
+async function embedPendingChunks(
+  supabaseClient: SupabaseClient,
+  job: IngestionJob,
+  provider: EmbeddingProvider,
+  totalChunks: number,
+  reportProgress: ReturnType<typeof createProgressReporter>
+): Promise<void> {
+  let pendingQuery = supabaseClient
+    .from('document_chunks')
+    .select('id, document_id, user_id, chunk_index, content, page_number, metadata')
+    .eq('document_id', job.document_id);
+
+  pendingQuery = job.kind === 'reembed'
+    ? pendingQuery.is('pending_embedding', null).neq('embedding_model', provider.id)
+    : pendingQuery.is('embedding', null);
+
+  const { data: pendingChunks, error: pendingError } = await pendingQuery.order('chunk_index', { ascending: true });
+
+  if (pendingError) throw pendingError;
+
+  let embeddedChunks = totalChunks - pendingChunks.length;
+  await reportProgress('embed', embeddedChunks, totalChunks);
+
+  const batches: typeof pendingChunks[] = [];
+  for (let i = 0; i < pendingChunks.length; i += provider.batchSize) {
+    batches.push(pendingChunks.slice(i, i + provider.batchSize));
+  }
+
+  await mapWithConcurrency(batches, EMBEDDING_CONCURRENCY, async (batch, batchIndex) => {
+    console.log(`🔢 Embedding batch ${batchIndex + 1}/${batches.length} (${batch.length} chunks) with ${provider.id}`);
+    const embeddings = await provider.embed(batch.map(chunk => embeddingInput(chunk.content, chunk.metadata?.heading_path)));
+
+    // Write the batch's embeddings back in one request
+    const { error: upsertError } = await supabaseClient
+      .from('document_chunks')
+      .upsert(batch.map((chunk, i) => job.kind === 'reembed'
+        ? { ...chunk, pending_embedding: embeddings[i], pending_embedding_model: provider.id }
+        : { ...chunk, embedding: embeddings[i], embedding_model: provider.id, embedding_dimensions: provider.dimensions }
+      ), { onConflict: 'id' });
+
+    if (upsertError) {
+      console.error('❌ Failed to store chunk embeddings:', upsertError);
+      throw upsertError;
+    }
+
+    embeddedChunks += batch.length;
+    console.log(`✅ Stored batch ${batchIndex + 1}, ${embeddedChunks}/${totalChunks} chunks embedded`);
+    await reportProgress('embed', embeddedChunks, totalChunks);
+  });
+}
+
+async function completeJob(supabaseClient: SupabaseClient, job: IngestionJob): Promise<void> {
+  const { error: jobError } = await supabaseClient
+    .from('ingestion_jobs')
+    .update({
+      status: 'completed',
+      completed_at: new Date().toISOString(),
+      last_error: null,
+      locked_at: null,
+      locked_by: null
+    })
+    .eq('id', job.id);
+
+  if (jobError) throw jobError;
+}
+
+// Move a completed document to the job's embedding model. The document stays searchable with its
+// current embeddings until all new ones exist, then both are swapped in one transaction.
+async function reembedDocument(supabaseClient: SupabaseClient, job: IngestionJob): Promise<void> {
+  const reportProgress = createProgressReporter(supabaseClient, job);
+  const provider = await resolveEmbeddingProvider(supabaseClient, job);
+
+  const { data: document, error: docError } = await supabaseClient
+    .from('documents')
+    .select('id, status, embedding_model')
+    .eq('id', job.document_id)
+    .single();
+
+  if (docError) throw docError;
+
+  // Documents that are not completed get embedded from scratch by their next ingestion
+  if (document.status !== 'completed' || document.embedding_model === provider.id) {
+    console.log(`⏩ Skipping re-embedding of document ${job.document_id} (${document.status}, ${document.embedding_model})`);
+    await completeJob(supabaseClient, job);
+    return;
+  }
+
+  // Drop what an earlier migration to a different model left behind
+  const { error: clearError } = await supabaseClient
+    .from('document_chunks')
+    .update({ pending_embedding: null, pending_embedding_model: null })
+    .eq('document_id', job.document_id)
+    .neq('pending_embedding_model', provider.id);
+
+  if (clearError) throw clearError;
+
+  const { count: totalChunks, error: countError } = await supabaseClient
+    .from('document_chunks')
+    .select('id', { count: 'exact', head: true })
+    .eq('document_id', job.document_id);
+
+  if (countError) throw countError;
+
+  console.log(`🔁 Re-embedding document ${job.document_id}: ${document.embedding_model} → ${provider.id}`);
+  await embedPendingChunks(supabaseClient, job, provider, totalChunks ?? 0, reportProgress);
+
+  await reportProgress('store', 0, 1);
+  const { data: promoted, error: promoteError } = await supabaseClient.rpc('promote_pending_embeddings', {
+    target_document_id: job.document_id,
+    target_model: provider.id
+  });
+
+  if (promoteError) throw promoteError;
+  await reportProgress('store', 1, 1);
+
+  await completeJob(supabaseClient, job);
+  console.log(`✅ Re-embedded ${promoted} chunks of document ${job.document_id} with ${provider.id}`);
+}
+
+// Run (or resume) one ingestion job. Stages already completed by an earlier attempt are skipped.
+async function runJob(supabaseClient: SupabaseClient, job: IngestionJob): Promise<void> {
+  if (job.kind === 'reembed') {
+    return await reembedDocument(supabaseClient, job);
+  }
+
+  const reportProgress = createProgressReporter(supabaseClient, job);
+  const provider = await resolveEmbeddingProvider(supabaseClient, job);
+
+  // Get document info
+  const { data: document, error: docError } = await supabaseClient
+    .from('documents')
+    .select('*')
+    .eq('id', job.document_id)
+    .single();
+
+  if (docError) throw docError;
+
+  // Jobs queued directly for a completed or failed document still run as "processing"
+  if (document.status !== 'processing') {
+    const { error: statusError } = await supabaseClient
+      .from('documents')
+      .update({ status: 'processing' })
+      .eq('id', job.document_id);
+
+    if (statusError) throw statusError;
+  }
+
+  const { count: storedChunks, error: countError } = await supabaseClient
+    .from('document_chunks')
+    .select('id', { count: 'exact', head: true })
+    .eq('document_id', job.document_id);
+
+  if (countError) throw countError;
+
+  // Chunks from an earlier attempt are reused only if that attempt finished storing all of them
+  let totalChunks = job.progress.chunk?.total ?? 0;
+  if (!isStageComplete(job, 'chunk') || storedChunks !== totalChunks) {
+    totalChunks = await prepareChunks(supabaseClient, job, document, reportProgress);
+  } else {
+    console.log(`⏩ Resuming job ${job.id} with ${totalChunks} stored chunks`);
+  }
+
+  await embedPendingChunks(supabaseClient, job, provider, totalChunks, reportProgress);
+
+  // Update document status
+  await reportProgress('store', 0, 1);
+  const { error: updateError } = await supabaseClient
+    .from('documents')
+    .update({
+      status: 'completed',
+      total_chunks: totalChunks,
+      embedding_model: provider.id
+    })
+    .eq('id', job.document_id);
+
+  if (updateError) {
+    console.error('❌ Failed to update document status:', updateError);
+    throw updateError;
+  }
+
+  await reportProgress('store', 1, 1);
+  await completeJob(supabaseClient, job);
+
+  console.log('✅ Document processing completed successfully');
+  console.log(`📊 Total chunks stored: ${totalChunks}`);
+}
+
+// Requeue a failed job with backoff, or give up once it has used all of its attempts
+async function failJob(supabaseClient: SupabaseClient, job: IngestionJob, error: Error): Promise<void> {
+  const code = error instanceof IngestionError ? error.code : STAGE_ERROR_CODES[job.stage] ?? 'UNKNOWN';
+  const exhausted = job.attempts >= job.max_attempts || PERMANENT_ERROR_CODES.includes(code);
+  const message = error.message || 'Document processing failed';
+
+  const { error: jobError } = await supabaseClient
+    .from('ingestion_jobs')
+    .update({
+      last_error: message,
+      last_error_code: code,
+      locked_at: null,
+      locked_by: null,
+      ...(exhausted
+        ? { status: 'failed' }
+        : {
+            status: 'queued',
+            run_after: new Date(Date.now() + JOB_RETRY_DELAY_MS * Math.pow(2, job.attempts - 1)).toISOString()
+          })
+    })
+    .eq('id', job.id);
+
+  if (jobError) {
+    console.error('❌ Failed to update ingestion job:', jobError);
+  }
+
+  if (!exhausted) {
+    console.log(`🔄 Job ${job.id} requeued after attempt ${job.attempts}/${job.max_attempts} (${code})`);
+    return;
+  }
+
+  // A failed re-embedding leaves the document searchable with its current embeddings
+  if (job.kind === 'reembed') {
+    console.log(`⚠️ Re-embedding job ${job.id} failed; document ${job.document_id} keeps its current embeddings`);
+    return;
+  }
+
+  const { error: docError } = await supabaseClient
+    .from('documents')
+    .update({ status: 'error', error_code: code, error_message: message })
+    .eq('id', job.document_id);
+
+  if (docError) {
+    console.error('❌ Failed to update document status to error:', docError);
+  }
+}
+
+// Claim and run jobs until the queue is empty or the time budget is spent
+async function drainQueue(supabaseClient: SupabaseClient): Promise<number> {
+  const startedAt = Date.now();
+  let processed = 0;
+
+  while (Date.now() - startedAt < WORKER_TIME_BUDGET_MS) {
+    const { data: jobs, error: claimError } = await supabaseClient.rpc('claim_ingestion_job', {
+      worker_id: WORKER_ID
+    });
+
+    if (claimError) {
+      console.error('❌ Failed to claim ingestion job:', claimError);
+      break;
+    }
+
+    const job = (jobs as IngestionJob[] | null)?.[0];
+    if (!job) break;
+
+    console.log(`🛠️ Worker ${WORKER_ID} running job ${job.id} (attempt ${job.attempts}/${job.max_attempts})`);
+
+    try {
+      // A reclaimed stale job may already have used up its attempts
+      if (job.attempts > job.max_attempts) {
+        throw new IngestionError('PROCESSING_INTERRUPTED', 'Document processing exceeded the maximum number of attempts');
+      }
+
+      await runJob(supabaseClient, job);
+    } catch (error) {
+      console.error(`❌ Error processing job ${job.id}:`, error);
+      await failJob(supabaseClient, job, error as Error);
+    }
+
+    processed++;
+  }
+
+  return processed;
+}
+
+serve(async (req) => {
+  const preflight = handleCorsPreflight(req);
+  if (preflight) return preflight;
+
+  // Started by process-document, reprocess-document or a schedule, never by end users
+  if (!isServiceRoleRequest(req)) {
+    return errorResponse(unauthorized());
+  }
+
+  const supabaseClient = createServiceClient();
+
+  // Respond right away and keep working on the queue in the background
+  runInBackground(
+    drainQueue(supabaseClient)
+      .then(processed => console.log(`📊 Worker ${WORKER_ID} processed ${processed} jobs`))
+      .catch(error => console.error('❌ Ingestion worker crashed:', error))
+  );
+
+  return jsonResponse({ accepted: true, workerId: WORKER_ID }, 202);
+});
@@ -0,0 +1,54 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { getRequestUser } from '../_shared/auth.ts';
+import { wakeIngestionWorker } from '../_shared/background.ts';
+import { handleCorsPreflight } from '../_shared/cors.ts';
+import { getDefaultEmbeddingModel, getEmbeddingProvider } from '../_shared/embeddings.ts';
+import { badRequest, errorResponse, jsonResponse, unauthorized } from '../_shared/http.ts';
+import { createServiceClient } from '../_shared/supabase.ts';
+
+// Move the caller's completed documents to another embedding model (the configured default unless
+// `model` is given). Documents stay searchable with their current embeddings until each one is done.
+serve(async (req) => {
+  const preflight = handleCorsPreflight(req);
+  if (preflight) return preflight;
+
+  try {
+    const { model } = await req.json().catch(() => ({}));
+    const targetModel: string = model || getDefaultEmbeddingModel();
+
+    // Fail before queueing anything the worker could not run
+    const provider = getEmbeddingProvider(targetModel);
+    if (typeof provider === 'string') {
+      throw badRequest(`Embedding model ${targetModel} is not available: ${provider}`);
+    }
+
+    const supabaseClient = createServiceClient();
+
+    const user = await getRequestUser(req, supabaseClient);
+    if (!user) throw unauthorized();
+
+    const { data: jobs, error: enqueueError } = await supabaseClient.rpc('enqueue_reembed_jobs', {
+      target_user_id: user.id,
+      target_model: targetModel
+    });
+
+    if (enqueueError) throw enqueueError;
+
+    console.log(`📥 Queued ${jobs.length} re-embedding jobs for user ${user.id} (${targetModel})`);
+
+    if (jobs.length > 0) {
+      wakeIngestionWorker(supabaseClient);
+    }
+
+    return jsonResponse({
+      success: true,
+      model: targetModel,
+      queued: jobs.length,
+      jobIds: jobs.map((job: { id: string }) => job.id)
+    }, 202);
+
+  } catch (error) {
+    console.error('❌ Error queueing re-embedding:', error);
+    return errorResponse(error);
+  }
+});
@@ -0,0 +1,61 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { resolveChunkingOptions, type ChunkingOptions } from '../_shared/chunking-options.ts';
+import { getRequestUser } from '../_shared/auth.ts';
+import { wakeIngestionWorker } from '../_shared/background.ts';
+import { handleCorsPreflight } from '../_shared/cors.ts';
+import { badRequest, conflict, errorResponse, jsonResponse, notFound, readJsonBody, unauthorized } from '../_shared/http.ts';
+import { createServiceClient } from '../_shared/supabase.ts';
+
+// Postgres error codes raised by reprocess_document
+const NO_DATA_FOUND = 'P0002';
+const UNIQUE_VIOLATION = '23505';
+
+// Re-run ingestion for a failed, stale or completed document, optionally with new chunking parameters
+serve(async (req) => {
+  const preflight = handleCorsPreflight(req);
+  if (preflight) return preflight;
+
+  try {
+    const { documentId, chunking } = await readJsonBody<{ documentId?: string; chunking?: Partial<ChunkingOptions> }>(req);
+
+    if (!documentId) throw badRequest('documentId is required');
+
+    const { options, error: chunkingError } = resolveChunkingOptions(chunking);
+    if (chunkingError) throw badRequest(chunkingError);
+
+    const supabaseClient = createServiceClient();
+
+    const user = await getRequestUser(req, supabaseClient);
+    if (!user) throw unauthorized();
+
+    console.log(`🔁 Reprocessing document ${documentId}`, options);
+
+    // Checks for an active job, queues the new one and resets the document in one transaction
+    const { data: job, error: reprocessError } = await supabaseClient.rpc('reprocess_document', {
+      target_document_id: documentId,
+      target_user_id: user.id,
+      job_options: { chunking: options }
+    });
+
+    if (reprocessError?.code === NO_DATA_FOUND) throw notFound('Document not found');
+    if (reprocessError?.code === UNIQUE_VIOLATION) {
+      throw conflict('Document is already being processed', JSON.parse(reprocessError.details));
+    }
+    if (reprocessError) throw reprocessError;
+
+    console.log(`📥 Queued ingestion job ${job.id} for document ${documentId}`);
+
+    wakeIngestionWorker(supabaseClient);
+
+    return jsonResponse({
+      success: true,
+      jobId: job.id,
+      status: job.status,
+      stage: job.stage
+    }, 202);
+
+  } catch (error) {
+    console.error('❌ Error reprocessing document:', error);
+    return errorResponse(error);
+  }
+});
@@ -0,0 +1,66 @@
+// Snippets for search hits: the part of a chunk around its first keyword match, with the query terms
+// marked. Terms match the start of words, so "warranty" also marks "warranties".
+
+import type { HighlightRange } from '../_shared/search-results.ts';
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'do', 'does', 'for', 'from', 'how', 'in', 'is', 'it',
+  'of', 'on', 'or', 'that', 'the', 'this', 'to', 'was', 'what', 'when', 'where', 'which', 'who', 'why', 'with'
+]);
+
+const WORD = /[\p{L}\p{N}]+/gu;
+
+// Matches are shown with this much text before them
+const SNIPPET_LEAD = 60;
+
+// Drop a plural or "y" ending so a term matches the word's other forms
+function stem(word: string): string {
+  return word.length > 4 ? word.replace(/(?:ies|es|s|y)$/, '') : word;
+}
+
+// Lowercased stems of the words to highlight. Words excluded with "-word" (websearch syntax) and
+// stop words are left out.
+export function queryTerms(query: string): string[] {
+  const included = query.replace(/(^|\s)-\S+/g, ' ').toLowerCase();
+  const words = (included.match(WORD) ?? []).filter(word => word.length > 1 && !STOP_WORDS.has(word));
+  return [...new Set(words.map(stem))];
+}
+
+// Cut `content` to at most `maxLength` characters around the first match, on word boundaries, and
+// locate the matches in the result. A snippet that does not start or end with the chunk gets an ellipsis.
+export function buildSnippet(
+  content: string,
+  terms: string[],
+  maxLength = 240
+): { snippet: string; highlights: HighlightRange[] } {
+  const matches: HighlightRange[] = [];
+  for (const word of content.matchAll(WORD)) {
+    const lower = word[0].toLowerCase();
+    if (terms.some(term => lower.startsWith(term))) {
+      matches.push({ start: word.index!, end: word.index! + word[0].length });
+    }
+  }
+
+  let start = matches.length > 0 ? Math.max(0, matches[0].start - SNIPPET_LEAD) : 0;
+  if (start > 0) {
+    const wordStart = content.slice(start).search(/(?<=\s)\S/);
+    if (wordStart !== -1 && start + wordStart <= matches[0].start) start += wordStart;
+  }
+
+  let end = Math.min(content.length, start + maxLength);
+  if (end < content.length) {
+    const lastSpace = content.slice(start, end + 1).search(/\s\S*$/);
+    if (lastSpace > 0) end = start + lastSpace;
+  }
+
+  const prefix = start > 0 ? '…' : '';
+  const suffix = end < content.length ? '…' : '';
+  const shift = prefix.length - start;
+
+  return {
+    snippet: prefix + content.slice(start, end) + suffix,
+    highlights: matches
+      .filter(match => match.start >= start && match.end <= end)
+      .map(match => ({ start: match.start + shift, end: match.end + shift }))
+  };
+}
@@ -0,0 +1,154 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { getRequestUser } from '../_shared/auth.ts';
+import { handleCorsPreflight } from '../_shared/cors.ts';
+import { badRequest, errorResponse, jsonResponse, unauthorized } from '../_shared/http.ts';
+import { hybridSearch } from '../_shared/hybrid-search.ts';
+import type { SearchRequest, SearchResponse } from '../_shared/search-results.ts';
+import { createServiceClient, type SupabaseClient } from '../_shared/supabase.ts';
+import { buildSnippet, queryTerms } from './highlights.ts';
+
+const DEFAULT_PAGE_SIZE = 10;
+const MAX_PAGE_SIZE = 50;
+// Search ranks at most this many chunks, so pages beyond them are not available
+const MAX_RESULTS = 200;
+
+interface SearchDocument {
+  id: string;
+  name: string;
+  mime_type: string;
+}
+
+interface SearchFilters {
+  documentIds: string[] | null;
+  mimeTypes: string[] | null;
+  uploadedAfter: string | null;
+  uploadedBefore: string | null;
+}
+
+function parseIdList(value: unknown, field: string): string[] | null {
+  if (value === undefined || value === null) return null;
+  if (!Array.isArray(value) || value.some(item => typeof item !== 'string')) {
+    throw badRequest(`${field} must be an array of strings`);
+  }
+  return value.length > 0 ? value : null;
+}
+
+function parseDate(value: unknown, field: string): string | null {
+  if (value === undefined || value === null || value === '') return null;
+
+  const date = new Date(typeof value === 'string' ? value : NaN);
+  if (Number.isNaN(date.getTime())) throw badRequest(`${field} must be an ISO date`);
+  return date.toISOString();
+}
+
+// The caller's completed documents that pass the filters
+async function loadSearchDocuments(
+  supabaseClient: SupabaseClient,
+  userId: string,
+  filters: SearchFilters
+): Promise<SearchDocument[]> {
+  let query = supabaseClient
+    .from('documents')
+    .select('id, name, mime_type')
+    .eq('user_id', userId)
+    .eq('status', 'completed');
+
+  if (filters.documentIds) query = query.in('id', filters.documentIds);
+  if (filters.mimeTypes) query = query.in('mime_type', filters.mimeTypes);
+  if (filters.uploadedAfter) query = query.gte('created_at', filters.uploadedAfter);
+  if (filters.uploadedBefore) query = query.lte('created_at', filters.uploadedBefore);
+
+  const { data, error } = await query;
+  if (error) throw error;
+
+  return (data || []) as SearchDocument[];
+}
+
+// Ranked passages of the caller's documents for a query, without generating an answer
+serve(async (req) => {
+  const preflight = handleCorsPreflight(req);
+  if (preflight) return preflight;
+
+  try {
+    const body: Partial<SearchRequest> = await req.json().catch(() => ({}));
+
+    const supabaseClient = createServiceClient();
+
+    const user = await getRequestUser(req, supabaseClient);
+    if (!user) throw unauthorized();
+
+    const query = typeof body.query === 'string' ? body.query.trim() : '';
+    const page = body.page ?? 1;
+    const pageSize = body.pageSize ?? DEFAULT_PAGE_SIZE;
+
+    if (!query) throw badRequest('query is required');
+    if (!Number.isInteger(page) || page < 1) throw badRequest('page must be a positive integer');
+    if (!Number.isInteger(pageSize) || pageSize < 1 || pageSize > MAX_PAGE_SIZE) {
+      throw badRequest(`pageSize must be between 1 and ${MAX_PAGE_SIZE}`);
+    }
+    if (page * pageSize > MAX_RESULTS) {
+      throw badRequest(`Only the first ${MAX_RESULTS} results can be paged through`);
+    }
+
+    const filters: SearchFilters = {
+      documentIds: parseIdList(body.documentIds, 'documentIds'),
+      mimeTypes: parseIdList(body.mimeTypes, 'mimeTypes'),
+      uploadedAfter: parseDate(body.uploadedAfter, 'uploadedAfter'),
+      uploadedBefore: parseDate(body.uploadedBefore, 'uploadedBefore')
+    };
+    console.log('🔎 Search request:', { userId: user.id, page, pageSize, queryLength: query.length, filters });
+
+    const response: SearchResponse = { query, page, pageSize, hasMore: false, results: [] };
+
+    const documents = await loadSearchDocuments(supabaseClient, user.id, filters);
+    if (documents.length === 0) {
+      console.log('⚠️ No completed documents match the filters');
+      return jsonResponse(response);
+    }
+    const documentsById = new Map(documents.map(document => [document.id, document]));
+    const filtered = Object.values(filters).some(value => value !== null);
+
+    // Every page is cut from the same candidate set: the number of candidates shapes the fused
+    // ranking, so fetching more for later pages would reorder the results already shown
+    const { data: matches, error: searchError } = await hybridSearch(supabaseClient, {
+      query,
+      userId: user.id,
+      documentIds: filtered ? documents.map(document => document.id) : null,
+      matchCount: MAX_RESULTS + 1
+    });
+    if (searchError) throw searchError;
+
+    const terms = queryTerms(query);
+    const offset = (page - 1) * pageSize;
+
+    response.hasMore = matches.length > offset + pageSize && offset + pageSize < MAX_RESULTS;
+    response.results = matches.slice(offset, offset + pageSize).map((match, position) => {
+      const document = documentsById.get(match.document_id);
+      const { snippet, highlights } = buildSnippet(match.content, terms);
+
+      return {
+        rank: offset + position + 1,
+        chunk_id: match.id,
+        document_id: match.document_id,
+        document_name: document?.name ?? match.documents.name,
+        mime_type: document?.mime_type ?? '',
+        heading_path: match.metadata?.heading_path ?? null,
+        snippet,
+        highlights,
+        page_number: match.page_number,
+        end_page_number: match.end_page_number ?? match.page_number,
+        start_offset: match.start_offset,
+        end_offset: match.end_offset,
+        score: match.rrf_score,
+        similarity: match.similarity
+      };
+    });
+
+    console.log('✅ Search returned', response.results.length, 'results', response.hasMore ? '(more available)' : '');
+    return jsonResponse(response);
+
+  } catch (error) {
+    console.error('❌ Error searching documents:', error);
+    return errorResponse(error);
+  }
+});
@@ -0,0 +1,178 @@
+import { assert, assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import { DEFAULT_MOCK_ANSWER } from '../evals/mock-llm-server.ts';
+import {
+  callFunction,
+  callStreamingFunction,
+  createConversation,
+  processDocument,
+  uploadTextDocument
+} from '../evals/local-stack.ts';
+import { localStackTest, type StackContext } from './local-stack.ts';
+
+const HANDBOOK_TEXT = Array.from(
+  { length: 20 },
+  (_, i) => `Section ${i + 1}: the warranty for the mock espresso machine lasts two years from purchase.`
+).join(' ');
+
+const QUESTION = 'How long does the espresso machine warranty last?';
+
+interface ChatMessages {
+  user: { role: string; content: string };
+  assistant: { role: string; content: string; provider: string | null };
+}
+
+// A conversation with one processed document to search
+async function setUpConversation({ admin, testUser }: StackContext): Promise<string> {
+  const documentId = await uploadTextDocument(testUser, 'Espresso handbook', HANDBOOK_TEXT);
+  const document = await processDocument(admin, testUser, documentId);
+  assertEquals(document.status, 'completed');
+
+  return await createConversation(testUser);
+}
+
+localStackTest('chat-with-documents rejects unauthenticated callers and unknown conversations', async ({ testUser }) => {
+  const anonymous = await callFunction('chat-with-documents', { sessionId: crypto.randomUUID(), message: QUESTION });
+  assertEquals(anonymous.status, 401);
+  assertEquals((anonymous.body.error as { code: string }).code, 'UNAUTHORIZED');
+
+  const missing = await callFunction(
+    'chat-with-documents',
+    { sessionId: crypto.randomUUID(), message: QUESTION },
+    testUser.accessToken
+  );
+  assertEquals(missing.status, 404);
+  assertEquals(missing.body, { error: { code: 'NOT_FOUND', message: 'Conversation not found' } });
+
+  const invalid = await callFunction('chat-with-documents', { message: QUESTION }, testUser.accessToken);
+  assertEquals(invalid.status, 400);
+  assertEquals((invalid.body.error as { code: string }).code, 'BAD_REQUEST');
+
+  const notJson = await callFunction('chat-with-documents', '{"message": ', testUser.accessToken);
+  assertEquals(notJson.status, 400);
+  assertEquals(notJson.body, { error: { code: 'BAD_REQUEST', message: 'Request body must be JSON' } });
+});
+
+localStackTest('chat-with-documents answers without documents', async ({ mock, testUser }) => {
+  const sessionId = await createConversation(testUser);
+
+  const { status, body } = await callFunction('chat-with-documents', { sessionId, message: QUESTION }, testUser.accessToken);
+
+  assertEquals(status, 200);
+  assert((body.response as string).startsWith("I couldn't find relevant documents"));
+  assertEquals(body.sources, []);
+
+  const messages = body.messages as ChatMessages;
+  assertEquals(messages.user.content, QUESTION);
+  assertEquals(messages.assistant.content, body.response);
+
+  // Nothing to answer from, so no model was called
+  assertEquals(mock.requestCount('generateContent'), 0);
+  assertEquals(mock.requestCount('/chat/completions'), 0);
+});
+
+localStackTest('chat-with-documents answers from retrieved chunks with citations', async (context) => {
+  const sessionId = await setUpConversation(context);
+
+  const { status, body } = await callFunction(
+    'chat-with-documents',
+    { sessionId, message: QUESTION },
+    context.testUser.accessToken
+  );
+
+  assertEquals(status, 200);
+  assertEquals(body.response, DEFAULT_MOCK_ANSWER);
+  assertEquals(body.provider, 'Gemini');
+
+  const sources = body.sources as { index: number; document_name: string; cited: boolean; rerank_score: number | null }[];
+  assert(sources.length > 0);
+  assertEquals(sources[0].document_name, 'Espresso handbook');
+  assertEquals(sources[0].cited, true);
+
+  // Candidates were reranked by the mock cross-encoder, best first
+  assertEquals(context.mock.requestCount('/rerank'), 1);
+  const scores = sources.map(source => source.rerank_score!);
+  assert(scores.every(score => typeof score === 'number'));
+  assertEquals(scores, [...scores].sort((a, b) => b - a));
+
+  // The retrieved context is part of the prompt sent to the model
+  const prompt = JSON.stringify(context.mock.requests.find(request => request.path.endsWith(':generateContent'))?.body);
+  assert(prompt.includes('warranty for the mock espresso machine'));
+
+  // The small test document fits the context budget whole
+  const report = body.context as { tokenBudget: number; usedTokens: number; dropped: unknown[] };
+  assert(report.usedTokens > 0 && report.usedTokens <= report.tokenBudget);
+  assertEquals(report.dropped, []);
+
+  assertEquals((body.messages as ChatMessages).assistant.provider, 'Gemini');
+});
+
+localStackTest('chat-with-documents falls back to the next provider', async (context) => {
+  const sessionId = await setUpConversation(context);
+  context.mock.failNext('generateContent', 503);
+
+  const { body } = await callFunction('chat-with-documents', { sessionId, message: QUESTION }, context.testUser.accessToken);
+
+  assertEquals(body.response, DEFAULT_MOCK_ANSWER);
+  assertEquals(body.provider, 'OpenAI (fallback)');
+  assertEquals(context.mock.requestCount('/chat/completions'), 1);
+});
+
+localStackTest('chat-with-documents degrades when every provider fails', async (context) => {
+  const sessionId = await setUpConversation(context);
+  context.mock.failNext('generateContent', 503);
+  context.mock.failNext('/chat/completions', 503);
+
+  const { status, body } = await callFunction(
+    'chat-with-documents',
+    { sessionId, message: QUESTION },
+    context.testUser.accessToken
+  );
+
+  assertEquals(status, 200);
+  assertEquals(body.warning, 'AI_SERVICE_UNAVAILABLE');
+  assert((body.response as string).includes('currently overloaded'));
+  assertEquals(body.sources, []);
+  assertEquals((body.messages as ChatMessages).assistant.content, body.response);
+});
+
+localStackTest('chat-with-documents streams tokens and finishes with the saved messages', async (context) => {
+  const sessionId = await setUpConversation(context);
+
+  const events = await callStreamingFunction(
+    'chat-with-documents',
+    { sessionId, message: QUESTION, stream: true },
+    context.testUser.accessToken
+  );
+
+  const tokens = events.filter(({ event }) => event === 'token').map(({ data }) => data.text).join('');
+  assertEquals(tokens, DEFAULT_MOCK_ANSWER);
+
+  const done = events[events.length - 1];
+  assertEquals(done.event, 'done');
+  assertEquals(done.data.provider, 'Gemini');
+  assertEquals((done.data.messages as ChatMessages).assistant.content, DEFAULT_MOCK_ANSWER);
+});
+
+localStackTest('chat-with-documents stores an answer cut off mid-stream with the question', async (context) => {
+  const sessionId = await setUpConversation(context);
+  context.mock.breakStreamNext('streamGenerateContent');
+
+  const events = await callStreamingFunction(
+    'chat-with-documents',
+    { sessionId, message: QUESTION, stream: true },
+    context.testUser.accessToken
+  );
+
+  const tokens = events.filter(({ event }) => event === 'token').map(({ data }) => data.text).join('');
+  assert(tokens.length > 0);
+
+  const failure = events[events.length - 1];
+  assertEquals(failure.event, 'error');
+  const messages = failure.data.messages as ChatMessages;
+  assertEquals(messages.user.content, QUESTION);
+  assert(messages.assistant.content.startsWith(tokens.trim()));
+  assert(messages.assistant.content.includes('interrupted'));
+
+  const { data: stored } = await context.admin.from('messages').select('role').eq('conversation_id', sessionId);
+  assertEquals(stored?.length, 2);
+});
@@ -0,0 +1,144 @@
+import { assert, assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import { chunkText, embeddingInput, formatHeadingPath, joinPages, locateOffset } from '../ingestion-worker/chunking.ts';
+import { DEFAULT_CHUNKING_OPTIONS, resolveChunkingOptions } from '../_shared/chunking-options.ts';
+
+const sentence = (n: number) => `Sentence number ${n} talks about the quarterly pricing review in detail.`;
+const longText = Array.from({ length: 60 }, (_, i) => sentence(i + 1)).join(' ');
+
+Deno.test('chunkText keeps short text in a single chunk', () => {
+  const text = 'A short document that still has more than fifty characters of text in it.';
+  assertEquals(chunkText(text, 1000, 200), [{ content: text, startIndex: 0, endIndex: text.length, headingPath: [] }]);
+});
+
+Deno.test('chunkText respects the maximum chunk size', () => {
+  const chunks = chunkText(longText, 500, 100);
+
+  assert(chunks.length > 1);
+  for (const chunk of chunks) {
+    assert(chunk.content.length <= 500, `chunk of ${chunk.content.length} characters`);
+  }
+});
+
+Deno.test('chunkText offsets point at the chunk text', () => {
+  for (const chunk of chunkText(longText, 400, 80)) {
+    assertEquals(longText.slice(chunk.startIndex, chunk.startIndex + chunk.content.length), chunk.content);
+  }
+});
+
+Deno.test('chunkText overlaps consecutive chunks', () => {
+  const chunks = chunkText(longText, 400, 80);
+
+  for (let i = 1; i < chunks.length; i++) {
+    assert(chunks[i].startIndex < chunks[i - 1].endIndex, `chunk ${i} does not overlap the previous one`);
+  }
+});
+
+Deno.test('chunkText returns nothing for empty text', () => {
+  assertEquals(chunkText('', 1000, 200), []);
+});
+
+Deno.test('chunkText keeps short paragraphs that follow a heading', () => {
+  assertEquals(chunkText('# Notes\nShort.', 1000, 200), [
+    { content: 'Short.', startIndex: 8, endIndex: 14, headingPath: ['Notes'] }
+  ]);
+});
+
+const GUIDE = `Pricing guide
+
+1 Overview
+This guide explains how we price our products.
+
+2 Pricing
+List prices are reviewed every quarter.
+
+2.1 Discounts
+- Volume discounts start at 100 seats
+  and grow with every tier.
+- Education customers get 40% off.
+
+| Tier | Seats | Discount |
+| A | 100 | 5% |
+| B | 500 | 10% |
+
+# Appendix
+Contact sales for custom quotes.`;
+
+Deno.test('chunkText records the heading path of each chunk', () => {
+  const chunks = chunkText(GUIDE, 1000, 0);
+
+  assertEquals(chunks.map(chunk => chunk.headingPath), [
+    [],
+    ['1 Overview'],
+    ['2 Pricing'],
+    ['2 Pricing', '2.1 Discounts'],
+    ['Appendix']
+  ]);
+  assertEquals(chunks[2].content, 'List prices are reviewed every quarter.');
+});
+
+Deno.test('chunkText keeps line structure and whole list items', () => {
+  const [discounts] = chunkText(GUIDE, 1000, 0).filter(chunk => chunk.headingPath.includes('2.1 Discounts'));
+
+  assert(discounts.content.startsWith('- Volume discounts start at 100 seats\n  and grow with every tier.\n'));
+  assert(discounts.content.endsWith('| B | 500 | 10% |'));
+
+  // Too small for the whole section: the list and the table each get a chunk
+  const small = chunkText(GUIDE, 100, 0).filter(chunk => chunk.headingPath.includes('2.1 Discounts'));
+  assertEquals(small.map(chunk => chunk.content.split('\n')[0]), ['- Volume discounts start at 100 seats', '| Tier | Seats | Discount |']);
+});
+
+Deno.test('chunkText splits large tables between rows', () => {
+  const rows = Array.from({ length: 30 }, (_, i) => `| Row ${i} | value ${i} | more ${i} |`);
+  const chunks = chunkText(`# Table\n${rows.join('\n')}`, 200, 40);
+
+  assert(chunks.length > 1);
+  for (const chunk of chunks) {
+    assert(chunk.content.length <= 200);
+    for (const line of chunk.content.split('\n')) {
+      assert(rows.includes(line), `"${line}" is not a whole row`);
+    }
+  }
+});
+
+Deno.test('chunkText breaks text without sentence ends at whitespace', () => {
+  const words = Array.from({ length: 100 }, (_, i) => `word${i}`).join(' ');
+
+  for (const chunk of chunkText(words, 200, 0)) {
+    assert(chunk.content.length <= 200);
+    assert(/^word\d+$/.test(chunk.content.split(' ').pop()!));
+  }
+});
+
+Deno.test('ordered list items are not mistaken for headings', () => {
+  const [chunk] = chunkText('Steps:\n1. Open the app\n2. Sign in', 1000, 0);
+  assertEquals(chunk.headingPath, []);
+  assertEquals(chunk.content, 'Steps:\n1. Open the app\n2. Sign in');
+});
+
+Deno.test('embeddingInput prepends the heading path', () => {
+  assertEquals(embeddingInput('Body text.', formatHeadingPath(['3 Pricing', '3.2 Discounts'])), '3 Pricing > 3.2 Discounts\n\nBody text.');
+  assertEquals(embeddingInput('Body text.', null), 'Body text.');
+});
+
+Deno.test('joinPages keeps line structure and locateOffset maps to collapsed page offsets', () => {
+  const { text, spans } = joinPages(['First   page\ntext.', '', 'Third page text.']);
+
+  assertEquals(text, 'First   page\ntext.\n\nThird page text.');
+  assertEquals(spans.map(span => span.page), [1, 3]);
+  assertEquals(locateOffset(spans, 0), { page: 1, offset: 0 });
+  // Offsets count characters of "First page text.", the text source previews highlight in
+  assertEquals(locateOffset(spans, text.indexOf('text.')), { page: 1, offset: 11 });
+  assertEquals(locateOffset(spans, text.indexOf('Third') + 2), { page: 3, offset: 2 });
+});
+
+Deno.test('resolveChunkingOptions merges overrides over the defaults', () => {
+  assertEquals(resolveChunkingOptions(undefined), { options: DEFAULT_CHUNKING_OPTIONS });
+  assertEquals(resolveChunkingOptions({ overlap: 100 }).options, { maxChunkSize: 1000, overlap: 100 });
+});
+
+Deno.test('resolveChunkingOptions rejects out-of-range values', () => {
+  assert(resolveChunkingOptions({ maxChunkSize: 100 }).error);
+  assert(resolveChunkingOptions({ maxChunkSize: 9000 }).error);
+  assert(resolveChunkingOptions({ maxChunkSize: 1000, overlap: 500 }).error);
+  assert(resolveChunkingOptions({ overlap: -1 }).error);
+});
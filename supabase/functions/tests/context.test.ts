@@ -0,0 +1,82 @@
+import { assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import { diversify, expandWithNeighbors, mergeOverlapping, packContext, type ContextChunk } from '../chat-with-documents/context.ts';
+
+const chunk = (chunkIndex: number, content: string, documentId = 'doc'): ContextChunk => ({
+  id: `${documentId}-${chunkIndex}`,
+  document_id: documentId,
+  chunk_index: chunkIndex,
+  content,
+  page_number: chunkIndex + 1,
+  end_page_number: chunkIndex + 1,
+  start_offset: 0,
+  end_offset: content.length
+});
+
+Deno.test('diversify moves near-duplicates behind other relevant chunks', () => {
+  const ranked = [
+    { id: 'a', content: 'The warranty lasts two years from the date of purchase.', rerank_score: 0.9 },
+    { id: 'b', content: 'The warranty lasts two years from the date of purchase, as stated.', rerank_score: 0.85 },
+    { id: 'c', content: 'Claims require the original receipt and serial number.', rerank_score: 0.6 },
+    { id: 'd', content: 'Our offices are closed on public holidays.', rerank_score: 0.1 }
+  ];
+
+  assertEquals(diversify(ranked, 0.5).map(candidate => candidate.id), ['a', 'c', 'b', 'd']);
+  // Relevance only
+  assertEquals(diversify(ranked, 1).map(candidate => candidate.id), ['a', 'b', 'c', 'd']);
+});
+
+Deno.test('diversify ranks by position when candidates have no rerank scores', () => {
+  const ranked = [
+    { id: 'a', content: 'alpha beta gamma', rerank_score: null },
+    { id: 'b', content: 'alpha beta gamma', rerank_score: null },
+    { id: 'c', content: 'delta epsilon', rerank_score: null }
+  ];
+
+  assertEquals(diversify(ranked, 0.5).map(candidate => candidate.id), ['a', 'c', 'b']);
+});
+
+Deno.test('mergeOverlapping drops the repeated text', () => {
+  const first = 'First sentence here. The shared sentence in both chunks.';
+  const second = 'The shared sentence in both chunks. Third sentence here.';
+
+  assertEquals(mergeOverlapping(first, second), 'First sentence here. The shared sentence in both chunks. Third sentence here.');
+  // Coincidental short overlaps are not merged
+  assertEquals(mergeOverlapping('Ends with a.', 'a. Starts here.'), 'Ends with a.\na. Starts here.');
+});
+
+Deno.test('expandWithNeighbors adds surrounding chunks and merges adjacent hits', () => {
+  const hits = [chunk(7, 'Hit seven.'), chunk(1, 'Hit one.'), chunk(2, 'Hit two.')];
+  const neighbors = [chunk(0, 'Zero.'), chunk(3, 'Three.'), chunk(6, 'Six.'), chunk(8, 'Eight.')];
+
+  const passages = expandWithNeighbors(hits, neighbors, () => true);
+
+  assertEquals(passages.map(passage => passage.chunk_ids), [
+    ['doc-6', 'doc-7', 'doc-8'],
+    ['doc-0', 'doc-1', 'doc-2', 'doc-3']
+  ]);
+  assertEquals(passages[0].id, 'doc-7');
+  assertEquals(passages[0].content, 'Six.\nHit seven.\nEight.');
+  assertEquals([passages[1].page_number, passages[1].end_page_number], [1, 4]);
+});
+
+Deno.test('expandWithNeighbors only adds neighbours that canAdd accepts', () => {
+  const hits = [chunk(1, 'Hit one.'), chunk(8, 'Hit eight.', 'other')];
+  const neighbors = [chunk(0, 'Zero.'), chunk(2, 'Two.'), chunk(7, 'Seven.', 'other')];
+  let budget = 2;
+
+  const passages = expandWithNeighbors(hits, neighbors, () => budget-- > 0);
+
+  assertEquals(passages.map(passage => passage.chunk_ids), [['doc-0', 'doc-1', 'doc-2'], ['other-8']]);
+});
+
+Deno.test('packContext skips chunks over the budget and reports them as dropped', () => {
+  const sizes: Record<string, number> = { a: 400, b: 700, c: 300, d: 200, e: 100 };
+  const ranked = Object.keys(sizes);
+
+  const packed = packContext(ranked, 3, 1000, id => sizes[id]);
+
+  assertEquals(packed.chunks, ['a', 'c', 'd']);
+  assertEquals(packed.usedTokens, 900);
+  // e was never needed, so it does not count as dropped
+  assertEquals(packed.dropped, [{ chunk: 'b', tokens: 700 }]);
+});
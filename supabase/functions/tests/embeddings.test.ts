@@ -0,0 +1,56 @@
+import { assertEquals, assertRejects } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import { getEmbeddingProvider, type EmbeddingProvider } from '../_shared/embeddings.ts';
+import { mockEmbedding, withMockLLMServer } from '../evals/mock-llm-server.ts';
+
+const embeddingEnv = (url: string) => ({
+  GEMINI_BASE_URL: `${url}/v1beta`,
+  GOOGLE_GEMINI_API_KEY: 'test-gemini-key',
+  EMBEDDING_MODELS: JSON.stringify({
+    'local/mock-embed': { type: 'openai-compatible', baseUrl: `${url}/v1`, model: 'mock-embed', dimensions: 768 },
+    'local/wrong-size': { type: 'openai-compatible', baseUrl: `${url}/v1`, model: 'mock-embed', dimensions: 384 }
+  })
+});
+
+const provider = (id: string) => getEmbeddingProvider(id) as EmbeddingProvider;
+
+Deno.test('Gemini embeddings are returned in input order', async () => {
+  await withMockLLMServer(embeddingEnv, async (mock) => {
+    const embeddings = await provider('gemini/embedding-001').embed(['first text', 'second text']);
+
+    assertEquals(embeddings, [mockEmbedding('first text'), mockEmbedding('second text')]);
+    assertEquals(mock.requestCount('/models/embedding-001:batchEmbedContents'), 1);
+  });
+});
+
+Deno.test('OpenAI-compatible embeddings use the configured server', async () => {
+  await withMockLLMServer(embeddingEnv, async (mock) => {
+    const [embedding] = await provider('local/mock-embed').embed(['query text']);
+
+    assertEquals(embedding, mockEmbedding('query text'));
+    assertEquals(mock.requestCount('/v1/embeddings'), 1);
+  });
+});
+
+Deno.test('embeddings with the wrong dimension are rejected', async () => {
+  await withMockLLMServer(embeddingEnv, async () => {
+    await assertRejects(() => provider('local/wrong-size').embed(['text']), Error, 'expected 384 dimensions');
+  });
+});
+
+Deno.test('embedding requests are retried on 503', async () => {
+  await withMockLLMServer(embeddingEnv, async (mock) => {
+    mock.failNext('batchEmbedContents', 503);
+
+    const embeddings = await provider('gemini/embedding-001').embed(['text']);
+
+    assertEquals(embeddings.length, 1);
+    assertEquals(mock.requestCount('batchEmbedContents'), 2);
+  });
+});
+
+Deno.test('getEmbeddingProvider explains unusable models', async () => {
+  await withMockLLMServer(url => ({ ...embeddingEnv(url), OPENAI_API_KEY: '' }), async () => {
+    assertEquals(getEmbeddingProvider('unknown/model'), 'unknown embedding model "unknown/model"');
+    assertEquals(getEmbeddingProvider('openai/text-embedding-3-small'), 'OPENAI_API_KEY is not set');
+  });
+});
@@ -0,0 +1,63 @@
+import { assertEquals, assertThrows } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import {
+  average,
+  citationAccuracy,
+  isRelevant,
+  parseJudgeScore,
+  recallAtK,
+  reciprocalRank,
+  type ExpectedPassage,
+  type RetrievedPassage
+} from '../evals/metrics.ts';
+
+const passage = (document: string, content: string, page = 1, endPage = page): RetrievedPassage => ({
+  document,
+  page_number: page,
+  end_page_number: endPage,
+  content
+});
+
+const descaling: ExpectedPassage = { document: 'manual', text: 'every 200  Brews' };
+
+Deno.test('isRelevant matches the document, pages and text of an expectation', () => {
+  assertEquals(isRelevant(passage('manual', 'Descale it every 200 brews.'), descaling), true);
+  assertEquals(isRelevant(passage('warranty', 'Descale it every 200 brews.'), descaling), false);
+  assertEquals(isRelevant(passage('manual', 'Descale it regularly.'), descaling), false);
+
+  const pages: ExpectedPassage = { document: 'manual', pages: [4] };
+  assertEquals(isRelevant(passage('manual', '...', 3, 5), pages), true);
+  assertEquals(isRelevant(passage('manual', '...', 5), pages), false);
+});
+
+Deno.test('recallAtK and reciprocalRank score the ranked results', () => {
+  const ranked = [
+    passage('manual', 'Pull a double shot.'),
+    passage('warranty', 'Scale damage is not covered.'),
+    passage('manual', 'Descale it every 200 brews.')
+  ];
+  const expected = [descaling, { document: 'warranty', text: 'scale damage' }];
+
+  assertEquals(recallAtK(ranked, expected, 1), 0);
+  assertEquals(recallAtK(ranked, expected, 2), 0.5);
+  assertEquals(recallAtK(ranked, expected, 3), 1);
+  assertEquals(reciprocalRank(ranked, expected), 0.5);
+  assertEquals(reciprocalRank(ranked.slice(0, 1), expected), 0);
+});
+
+Deno.test('citationAccuracy is the share of relevant citations', () => {
+  const cited = [passage('manual', 'Descale it every 200 brews.'), passage('manual', 'Pull a double shot.')];
+
+  assertEquals(citationAccuracy(cited, [descaling]), 0.5);
+  assertEquals(citationAccuracy([], [descaling]), null);
+});
+
+Deno.test('parseJudgeScore reads the verdict and rejects anything else', () => {
+  assertEquals(parseJudgeScore('Verdict: {"score": 0.75, "reason": "One claim is unsupported"}'), 0.75);
+  assertThrows(() => parseJudgeScore('Looks faithful to me'));
+  assertThrows(() => parseJudgeScore('{"score": 7}'));
+});
+
+Deno.test('average skips scores that could not be computed', () => {
+  assertEquals(average([1, null, 0.5]), 0.75);
+  assertEquals(average([null]), null);
+});
@@ -0,0 +1,27 @@
+import { assert, assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import { createMockJudge, formatReport, loadFixture, runEval, saveEvalRun } from '../evals/harness.ts';
+import { localStackTest } from './local-stack.ts';
+
+localStackTest('the eval harness scores the fixture set and stores the run', async ({ admin, mock, testUser }) => {
+  const fixture = await loadFixture('espresso');
+
+  const run = await runEval({ admin, testUser, fixture, judge: createMockJudge(mock), label: 'test' });
+
+  assertEquals(run.results.map(result => result.id), fixture.questions.map(question => question.id));
+  for (const score of Object.values(run.metrics)) {
+    assert(score === null || (score >= 0 && score <= 1));
+  }
+  // The questions share words with the passages they expect, so keyword search alone finds most of them
+  assert(run.metrics['recall@10']! >= 0.5);
+  // The mock judge rates every answer as faithful
+  assertEquals(run.metrics.faithfulness, 1);
+
+  const { id } = await saveEvalRun(admin, run);
+  try {
+    const { data: stored } = await admin.from('eval_runs').select('fixture, metrics').eq('id', id).single();
+    assertEquals(stored, { fixture: 'espresso', metrics: run.metrics });
+    assert(formatReport(run, null).includes('recall@5'));
+  } finally {
+    await admin.from('eval_runs').delete().eq('id', id);
+  }
+});
@@ -0,0 +1,86 @@
+import { assertEquals, assertRejects } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import { generateWithFallback, getProviderChain } from '../_shared/llm-providers.ts';
+import { DEFAULT_MOCK_ANSWER, withMockLLMServer } from '../evals/mock-llm-server.ts';
+
+const providerEnv = (url: string) => ({
+  GEMINI_BASE_URL: `${url}/v1beta`,
+  OPENAI_BASE_URL: `${url}/v1`,
+  GOOGLE_GEMINI_API_KEY: 'test-gemini-key',
+  OPENAI_API_KEY: 'test-openai-key',
+  LLM_PROVIDERS: JSON.stringify([
+    { type: 'gemini', maxRetries: 0 },
+    { type: 'openai', maxRetries: 0 }
+  ])
+});
+
+Deno.test('generateWithFallback answers with the first provider', async () => {
+  await withMockLLMServer(providerEnv, async (mock) => {
+    const result = await generateWithFallback(getProviderChain(), 'Question?');
+
+    assertEquals(result, { response: DEFAULT_MOCK_ANSWER, provider: 'Gemini', model: 'gemini-1.5-flash' });
+    assertEquals(mock.requestCount('/chat/completions'), 0);
+  });
+});
+
+Deno.test('generateWithFallback falls back when a provider fails', async () => {
+  await withMockLLMServer(providerEnv, async (mock) => {
+    mock.failNext('generateContent', 503);
+
+    const result = await generateWithFallback(getProviderChain(), 'Question?');
+
+    assertEquals(result.provider, 'OpenAI (fallback)');
+    assertEquals(result.response, DEFAULT_MOCK_ANSWER);
+  });
+});
+
+Deno.test('generateWithFallback streams tokens in order', async () => {
+  await withMockLLMServer(providerEnv, async () => {
+    const tokens: string[] = [];
+    const result = await generateWithFallback(getProviderChain(), 'Question?', text => tokens.push(text));
+
+    assertEquals(tokens.join(''), DEFAULT_MOCK_ANSWER);
+    assertEquals(result.response, DEFAULT_MOCK_ANSWER);
+  });
+});
+
+Deno.test('generateWithFallback does not fall back once tokens were streamed', async () => {
+  await withMockLLMServer(providerEnv, async (mock) => {
+    mock.breakStreamNext('streamGenerateContent');
+
+    const tokens: string[] = [];
+    await assertRejects(() => generateWithFallback(getProviderChain(), 'Question?', text => tokens.push(text)));
+
+    assertEquals(tokens.length, 1);
+    assertEquals(mock.requestCount('/chat/completions'), 0);
+  });
+});
+
+Deno.test('generateWithFallback fails when every provider fails', async () => {
+  await withMockLLMServer(providerEnv, async (mock) => {
+    mock.failNext('generateContent', 503);
+    mock.failNext('/chat/completions', 500);
+
+    await assertRejects(() => generateWithFallback(getProviderChain(), 'Question?'));
+  });
+});
+
+Deno.test('getProviderChain skips providers without an API key', async () => {
+  await withMockLLMServer(url => ({ ...providerEnv(url), OPENAI_API_KEY: '' }), async () => {
+    assertEquals(getProviderChain().map(provider => provider.name), ['Gemini']);
+  });
+});
+
+Deno.test('getProviderChain fills in context windows and answer reserves', async () => {
+  await withMockLLMServer(url => ({
+    ...providerEnv(url),
+    LLM_PROVIDERS: JSON.stringify([
+      { type: 'gemini' },
+      { type: 'openai', contextWindow: 16000, maxTokens: 800 }
+    ])
+  }), async () => {
+    const [gemini, openai] = getProviderChain();
+
+    assertEquals([gemini.contextWindow, gemini.maxOutputTokens], [1000000, 1500]);
+    assertEquals([openai.contextWindow, openai.maxOutputTokens], [16000, 800]);
+  });
+});
@@ -0,0 +1,41 @@
+// Integration tests against the local Supabase stack; see ../evals/local-stack.ts for the setup.
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import type { MockLLMServer } from '../evals/mock-llm-server.ts';
+import {
+  NO_LOCAL_STACK,
+  createAdminClient,
+  createTestUser,
+  deleteTestUser,
+  startFunctionsMock,
+  type TestUser
+} from '../evals/local-stack.ts';
+
+export interface StackContext {
+  admin: SupabaseClient;
+  mock: MockLLMServer;
+  testUser: TestUser;
+}
+
+// Run a test against the local stack with a fresh user and mock server, cleaning both up afterwards
+export function localStackTest(name: string, fn: (context: StackContext) => Promise<void>): void {
+  Deno.test({
+    name,
+    ignore: NO_LOCAL_STACK,
+    // The Supabase client keeps auth timers and connections alive between calls
+    sanitizeOps: false,
+    sanitizeResources: false,
+    async fn() {
+      const admin = createAdminClient();
+      const mock = startFunctionsMock();
+      const testUser = await createTestUser(admin);
+
+      try {
+        await fn({ admin, mock, testUser });
+      } finally {
+        await deleteTestUser(admin, testUser);
+        await mock.close();
+      }
+    }
+  });
+}
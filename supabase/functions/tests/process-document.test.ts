@@ -0,0 +1,174 @@
+import { assert, assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import {
+  callFunction,
+  processDocument,
+  uploadTextDocument,
+  waitFor,
+  waitForDocumentStatus
+} from '../evals/local-stack.ts';
+import { localStackTest } from './local-stack.ts';
+
+const REPORT_TEXT = Array.from(
+  { length: 40 },
+  (_, i) => `Finding ${i + 1}: the mock service handled the quarterly pricing review without errors.`
+).join(' ');
+
+localStackTest('process-document ingests a document and embeds its chunks', async ({ admin, testUser }) => {
+  const documentId = await uploadTextDocument(testUser, 'Quarterly report', REPORT_TEXT);
+
+  const document = await processDocument(admin, testUser, documentId);
+  assertEquals(document.status, 'completed');
+  assertEquals(document.embedding_model, 'gemini/embedding-001');
+
+  const { data: chunks } = await admin
+    .from('document_chunks')
+    .select('chunk_index, embedding_model, embedding_dimensions, page_number')
+    .eq('document_id', documentId)
+    .order('chunk_index');
+
+  assert(chunks && chunks.length > 1);
+  assertEquals(chunks.map(chunk => chunk.chunk_index), chunks.map((_, index) => index));
+  for (const chunk of chunks) {
+    assertEquals(chunk.embedding_model, 'gemini/embedding-001');
+    assertEquals(chunk.embedding_dimensions, 768);
+    assertEquals(chunk.page_number, 1);
+  }
+
+  const { data: job } = await admin.from('ingestion_jobs').select('status, stage').eq('document_id', documentId).single();
+  assertEquals(job, { status: 'completed', stage: 'store' });
+});
+
+localStackTest('process-document applies chunking overrides', async ({ admin, testUser }) => {
+  const defaultId = await uploadTextDocument(testUser, 'Default chunks', REPORT_TEXT);
+  const smallId = await uploadTextDocument(testUser, 'Small chunks', REPORT_TEXT);
+
+  await processDocument(admin, testUser, defaultId);
+  await processDocument(admin, testUser, smallId, { maxChunkSize: 300, overlap: 50 });
+
+  const countChunks = async (documentId: string) => {
+    const { count } = await admin
+      .from('document_chunks')
+      .select('id', { count: 'exact', head: true })
+      .eq('document_id', documentId);
+    return count ?? 0;
+  };
+
+  assert(await countChunks(smallId) > await countChunks(defaultId));
+});
+
+localStackTest('process-document rejects invalid chunking overrides', async ({ admin, testUser }) => {
+  const documentId = await uploadTextDocument(testUser, 'Bad chunks', REPORT_TEXT);
+
+  const { status, body } = await callFunction(
+    'process-document',
+    { documentId, chunking: { maxChunkSize: 300, overlap: 200 } },
+    testUser.accessToken
+  );
+  assertEquals(status, 400);
+  assertEquals(body, {
+    error: { code: 'BAD_REQUEST', message: 'overlap must be a non-negative integer smaller than half of maxChunkSize' }
+  });
+
+  // Nothing was queued for the worker
+  const { data: jobs } = await admin.from('ingestion_jobs').select('id').eq('document_id', documentId);
+  assertEquals(jobs, []);
+});
+
+localStackTest('documents without text fail with NO_TEXT', async ({ admin, testUser }) => {
+  const documentId = await uploadTextDocument(testUser, 'Empty', '   \n   ');
+
+  const document = await processDocument(admin, testUser, documentId);
+
+  assertEquals(document.status, 'error');
+  assertEquals(document.error_code, 'NO_TEXT');
+  assert(document.error_message);
+});
+
+localStackTest('a transient embedding failure is retried within the job', async ({ admin, mock, testUser }) => {
+  mock.failNext('batchEmbedContents', 503);
+  const documentId = await uploadTextDocument(testUser, 'Flaky embeddings', REPORT_TEXT);
+
+  const document = await processDocument(admin, testUser, documentId);
+
+  assertEquals(document.status, 'completed');
+  assert(mock.requestCount('batchEmbedContents') >= 2);
+});
+
+localStackTest('a rejected embedding request requeues the job', async ({ admin, mock, testUser }) => {
+  mock.failNext('batchEmbedContents', 400, 100);
+  const documentId = await uploadTextDocument(testUser, 'Rejected embeddings', REPORT_TEXT);
+
+  const { status } = await callFunction('process-document', { documentId }, testUser.accessToken);
+  assertEquals(status, 202);
+
+  const job = await waitFor('the job to be requeued', async () => {
+    const { data } = await admin
+      .from('ingestion_jobs')
+      .select('status, attempts, last_error_code')
+      .eq('document_id', documentId)
+      .single();
+    return data?.last_error_code ? data : null;
+  });
+
+  assertEquals(job, { status: 'queued', attempts: 1, last_error_code: 'EMBEDDING_FAILED' });
+
+  // Client errors are not retried within the attempt
+  assertEquals(mock.requestCount('batchEmbedContents'), 1);
+
+  const { data: document } = await admin.from('documents').select('status').eq('id', documentId).single();
+  assertEquals(document?.status, 'processing');
+});
+
+localStackTest('process-document rejects unauthenticated callers and other users', async ({ admin, testUser }) => {
+  const documentId = await uploadTextDocument(testUser, 'Private', REPORT_TEXT);
+
+  const anonymous = await callFunction('process-document', { documentId });
+  assertEquals(anonymous.status, 401);
+  assertEquals((anonymous.body.error as { code: string }).code, 'UNAUTHORIZED');
+
+  const missing = await callFunction('process-document', { documentId: crypto.randomUUID() }, testUser.accessToken);
+  assertEquals(missing.status, 404);
+  assertEquals(missing.body, { error: { code: 'NOT_FOUND', message: 'Document not found' } });
+
+  const notJson = await callFunction('process-document', 'documentId=1', testUser.accessToken);
+  assertEquals(notJson.status, 400);
+  assertEquals(notJson.body, { error: { code: 'BAD_REQUEST', message: 'Request body must be JSON' } });
+
+  await waitForDocumentStatus(admin, documentId, ['processing']);
+});
+
+localStackTest('reprocess-document queues one job at a time', async ({ admin, testUser }) => {
+  const documentId = await uploadTextDocument(testUser, 'Reprocessed', REPORT_TEXT);
+  await processDocument(admin, testUser, documentId);
+
+  const first = await callFunction('reprocess-document', { documentId }, testUser.accessToken);
+  assertEquals(first.status, 202);
+
+  const second = await callFunction('reprocess-document', { documentId }, testUser.accessToken);
+  assertEquals(second.status, 409);
+  const error = second.body.error as { code: string; details: { jobId: string } };
+  assertEquals(error.code, 'CONFLICT');
+  assertEquals(error.details.jobId, first.body.jobId);
+
+  const missing = await callFunction('reprocess-document', { documentId: crypto.randomUUID() }, testUser.accessToken);
+  assertEquals(missing.status, 404);
+
+  const document = await waitForDocumentStatus(admin, documentId, ['completed', 'error']);
+  assertEquals(document.status, 'completed');
+});
+
+localStackTest('document status transitions are enforced', async ({ admin, testUser }) => {
+  const documentId = await uploadTextDocument(testUser, 'State machine', REPORT_TEXT);
+  await processDocument(admin, testUser, documentId);
+
+  // completed -> error skips the processing state
+  const { error: invalid } = await admin
+    .from('documents')
+    .update({ status: 'error', error_code: 'UNKNOWN', error_message: 'Not allowed' })
+    .eq('id', documentId);
+  assert(invalid?.message.includes('Invalid document status transition'));
+
+  // completed -> processing is how reprocessing starts
+  const { error: valid } = await admin.from('documents').update({ status: 'processing' }).eq('id', documentId);
+  assertEquals(valid, null);
+});
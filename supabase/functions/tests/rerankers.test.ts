@@ -0,0 +1,65 @@
+import { assertEquals, assertThrows } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import { getReranker, parseLLMScores, rerank, type Reranker } from '../_shared/rerankers.ts';
+import { withMockLLMServer } from '../evals/mock-llm-server.ts';
+
+const candidates = [
+  { id: 'a', content: 'Office opening hours and parking.' },
+  { id: 'b', content: 'The espresso machine warranty lasts two years.' },
+  { id: 'c', content: 'Warranty claims need the original receipt.' }
+];
+const QUERY = 'how long is the espresso machine warranty';
+
+const rerankerEnv = (type: string) => (url: string) => ({
+  GEMINI_BASE_URL: `${url}/v1beta`,
+  GOOGLE_GEMINI_API_KEY: 'test-gemini-key',
+  LLM_PROVIDERS: JSON.stringify([{ type: 'gemini', maxRetries: 0 }]),
+  RERANKER: JSON.stringify({ type, baseUrl: `${url}/v1` })
+});
+
+Deno.test('cross-encoder reranking orders candidates by score', async () => {
+  await withMockLLMServer(rerankerEnv('cross-encoder'), async (mock) => {
+    const ranked = await rerank(getReranker() as Reranker, QUERY, candidates, candidate => candidate.content);
+
+    assertEquals(ranked.map(candidate => candidate.id), ['b', 'c', 'a']);
+    assertEquals(ranked.every(candidate => typeof candidate.rerank_score === 'number'), true);
+    assertEquals(mock.requestCount('/v1/rerank'), 1);
+  });
+});
+
+Deno.test('LLM reranking scores passages with the provider chain', async () => {
+  await withMockLLMServer(rerankerEnv('llm'), async (mock) => {
+    mock.setAnswer('Here are the scores: [1, 9, 6]');
+
+    const ranked = await rerank(getReranker() as Reranker, QUERY, candidates, candidate => candidate.content);
+
+    assertEquals(ranked.map(candidate => [candidate.id, candidate.rerank_score]), [['b', 0.9], ['c', 0.6], ['a', 0.1]]);
+  });
+});
+
+Deno.test('a failed reranking keeps the search order', async () => {
+  await withMockLLMServer(rerankerEnv('cross-encoder'), async (mock) => {
+    mock.failNext('/rerank', 500, 5);
+
+    const ranked = await rerank(getReranker() as Reranker, QUERY, candidates, candidate => candidate.content);
+
+    assertEquals(ranked.map(candidate => [candidate.id, candidate.rerank_score]), [['a', null], ['b', null], ['c', null]]);
+  });
+});
+
+Deno.test('parseLLMScores rejects answers without one score per passage', () => {
+  assertEquals(parseLLMScores('[10, 0, 15, -2]', 4), [1, 0, 1, 0]);
+  assertThrows(() => parseLLMScores('[3, 4]', 3));
+  assertThrows(() => parseLLMScores('The first passage is the most relevant.', 3));
+});
+
+Deno.test('getReranker explains a missing reranker', async () => {
+  await withMockLLMServer(url => ({ RERANKER: JSON.stringify({ type: 'none' }), GEMINI_BASE_URL: `${url}/v1beta` }), async () => {
+    assertEquals(getReranker(), 'disabled by RERANKER');
+  });
+  await withMockLLMServer(() => ({ RERANKER: JSON.stringify({ type: 'cross-encoder' }) }), async () => {
+    assertEquals(getReranker(), 'baseUrl is required');
+  });
+  await withMockLLMServer(() => ({ RERANKER: '{type: cross-encoder' }), async () => {
+    assertEquals(getReranker(), 'RERANKER is not valid JSON');
+  });
+});
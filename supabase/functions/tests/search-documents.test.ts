@@ -0,0 +1,94 @@
+import { assert, assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import type { SearchResponse } from '../_shared/search-results.ts';
+import { callFunction, processDocument, uploadTextDocument } from '../evals/local-stack.ts';
+import { localStackTest, type StackContext } from './local-stack.ts';
+
+const MANUAL_TEXT = Array.from(
+  { length: 30 },
+  (_, i) => `Step ${i + 1}: descale the mock espresso machine with citric acid before brewing again.`
+).join('\n\n');
+
+async function uploadProcessed({ admin, testUser }: StackContext, name: string, text: string): Promise<string> {
+  const documentId = await uploadTextDocument(testUser, name, text);
+  const document = await processDocument(admin, testUser, documentId);
+  assertEquals(document.status, 'completed');
+  return documentId;
+}
+
+localStackTest('search-documents rejects unauthenticated callers and invalid requests', async ({ testUser }) => {
+  const anonymous = await callFunction('search-documents', { query: 'descale' });
+  assertEquals(anonymous.status, 401);
+
+  const missingQuery = await callFunction('search-documents', { query: '  ' }, testUser.accessToken);
+  assertEquals(missingQuery.status, 400);
+  assertEquals(missingQuery.body, { error: { code: 'BAD_REQUEST', message: 'query is required' } });
+
+  const badPage = await callFunction('search-documents', { query: 'descale', pageSize: 500 }, testUser.accessToken);
+  assertEquals(badPage.status, 400);
+
+  const badDate = await callFunction('search-documents', { query: 'descale', uploadedAfter: 'yesterday' }, testUser.accessToken);
+  assertEquals(badDate.status, 400);
+});
+
+localStackTest('search-documents returns ranked, highlighted passages page by page', async (context) => {
+  const documentId = await uploadProcessed(context, 'Espresso manual', MANUAL_TEXT);
+
+  const first = await callFunction('search-documents', { query: 'descale espresso', pageSize: 1 }, context.testUser.accessToken);
+  assertEquals(first.status, 200);
+
+  const body = first.body as unknown as SearchResponse;
+  assertEquals(body.results.length, 1);
+  assertEquals(body.results[0].rank, 1);
+  assertEquals(body.results[0].document_id, documentId);
+  assertEquals(body.results[0].document_name, 'Espresso manual');
+  assertEquals(body.results[0].mime_type, 'text/plain');
+  assert(body.results[0].score > 0);
+
+  const { snippet, highlights } = body.results[0];
+  assert(highlights.length > 0);
+  assert(highlights.every(range => /^(descale|espresso)$/i.test(snippet.slice(range.start, range.end))));
+
+  // The manual is long enough for more than one chunk
+  assertEquals(body.hasMore, true);
+  const second = await callFunction('search-documents', { query: 'descale espresso', page: 2, pageSize: 1 }, context.testUser.accessToken);
+  const secondBody = second.body as unknown as SearchResponse;
+  assertEquals(secondBody.results[0].rank, 2);
+  assert(secondBody.results[0].chunk_id !== body.results[0].chunk_id);
+});
+
+localStackTest('search-documents pages through one stable ranking', async (context) => {
+  await uploadProcessed(context, 'Espresso manual', MANUAL_TEXT);
+  const search = (page: number, pageSize: number) =>
+    callFunction('search-documents', { query: 'descale espresso', page, pageSize }, context.testUser.accessToken)
+      .then(({ body }) => body as unknown as SearchResponse);
+
+  const all = await search(1, 50);
+  assert(all.results.length > 2);
+
+  // Page by page, the hits come out exactly as in the single large page
+  const pagedIds: string[] = [];
+  for (let page = 1; page <= all.results.length; page++) {
+    const { results, hasMore } = await search(page, 1);
+    pagedIds.push(...results.map(hit => hit.chunk_id));
+    assertEquals(hasMore, page < all.results.length);
+  }
+  assertEquals(pagedIds, all.results.map(hit => hit.chunk_id));
+});
+
+localStackTest('search-documents applies document, type and date filters', async (context) => {
+  const manualId = await uploadProcessed(context, 'Espresso manual', MANUAL_TEXT);
+  const notesId = await uploadProcessed(context, 'Descaling notes', 'Descale the espresso machine every month.');
+  const search = (filters: Record<string, unknown>) =>
+    callFunction('search-documents', { query: 'descale', pageSize: 50, ...filters }, context.testUser.accessToken)
+      .then(({ body }) => (body as unknown as SearchResponse).results);
+
+  const onlyNotes = await search({ documentIds: [notesId] });
+  assert(onlyNotes.length > 0);
+  assert(onlyNotes.every(hit => hit.document_id === notesId));
+
+  const both = new Set((await search({ mimeTypes: ['text/plain'] })).map(hit => hit.document_id));
+  assertEquals(both, new Set([manualId, notesId]));
+
+  assertEquals(await search({ mimeTypes: ['application/pdf'] }), []);
+  assertEquals(await search({ uploadedAfter: new Date(Date.now() + 60_000).toISOString() }), []);
+});
@@ -0,0 +1,35 @@
+import { assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import { buildSnippet, queryTerms } from '../search-documents/highlights.ts';
+
+const marked = ({ snippet, highlights }: ReturnType<typeof buildSnippet>) =>
+  highlights.map(range => snippet.slice(range.start, range.end));
+
+Deno.test('queryTerms drops stop words, excluded words and word endings', () => {
+  assertEquals(queryTerms('How long is the Warranty?'), ['long', 'warrant']);
+  assertEquals(queryTerms('espresso -grinder "policies"'), ['espresso', 'polic']);
+});
+
+Deno.test('buildSnippet marks every form of the query terms', () => {
+  const result = buildSnippet('Warranties: the warranty covers parts.', queryTerms('warranty'));
+
+  assertEquals(result.snippet, 'Warranties: the warranty covers parts.');
+  assertEquals(marked(result), ['Warranties', 'warranty']);
+});
+
+Deno.test('buildSnippet cuts long chunks around the first match on word boundaries', () => {
+  const filler = Array.from({ length: 40 }, (_, i) => `word${i}`).join(' ');
+  const content = `${filler} the espresso machine ${filler}`;
+
+  const result = buildSnippet(content, queryTerms('espresso'), 120);
+
+  assertEquals(result.snippet.startsWith('…word'), true);
+  assertEquals(result.snippet.endsWith('…'), true);
+  assertEquals(result.snippet.length <= 122, true);
+  assertEquals(marked(result), ['espresso']);
+});
+
+Deno.test('buildSnippet starts at the beginning when nothing matches', () => {
+  const result = buildSnippet('A passage found by meaning alone.', queryTerms('coffee'));
+
+  assertEquals(result, { snippet: 'A passage found by meaning alone.', highlights: [] });
+});
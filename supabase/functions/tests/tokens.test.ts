@@ -0,0 +1,13 @@
+import { assert, assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import { countTokens } from '../_shared/tokens.ts';
+
+Deno.test('countTokens counts cl100k_base tokens', () => {
+  assertEquals(countTokens(''), 0);
+  assertEquals(countTokens('hello world'), 2);
+  // Long or unusual words take several tokens, unlike a whitespace split
+  assert(countTokens('Antidisestablishmentarianism') > 1);
+});
+
+Deno.test('countTokens treats special-token markers in documents as text', () => {
+  assert(countTokens('Ends with <|endoftext|> here') > 1);
+});
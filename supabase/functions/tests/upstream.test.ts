@@ -0,0 +1,110 @@
+import {
+  assert,
+  assertEquals,
+  assertInstanceOf,
+  assertRejects,
+} from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import { retryWithBackoff } from '../_shared/retry.ts';
+import { postJSON, UpstreamError, UpstreamTimeoutError } from '../_shared/upstream.ts';
+import { badRequest, errorResponse, toErrorEnvelope } from '../_shared/http.ts';
+import { startMockLLMServer } from '../evals/mock-llm-server.ts';
+
+const embedPath = '/v1beta/models/embedding-001:batchEmbedContents';
+const embedBody = { requests: [{ model: 'models/embedding-001', content: { parts: [{ text: 'hello' }] } }] };
+
+Deno.test('retryWithBackoff retries retryable statuses until the call succeeds', async () => {
+  const mock = startMockLLMServer();
+  mock.failNext('batchEmbedContents', 503, 2);
+
+  try {
+    const response = await retryWithBackoff(() => postJSON('Mock', `${mock.url}${embedPath}`, {}, embedBody), 3, 1);
+    const data = await response.json();
+
+    assertEquals(data.embeddings.length, 1);
+    assertEquals(mock.requestCount('batchEmbedContents'), 3);
+  } finally {
+    await mock.close();
+  }
+});
+
+Deno.test('retryWithBackoff does not retry client errors', async () => {
+  const mock = startMockLLMServer();
+  mock.failNext('batchEmbedContents', 400, 5);
+
+  try {
+    const error = await assertRejects(
+      () => retryWithBackoff(() => postJSON('Mock', `${mock.url}${embedPath}`, {}, embedBody), 3, 1),
+      UpstreamError
+    );
+
+    assertEquals(error.upstreamStatus, 400);
+    assertEquals(mock.requestCount('batchEmbedContents'), 1);
+  } finally {
+    await mock.close();
+  }
+});
+
+Deno.test('retryWithBackoff gives up after maxRetries', async () => {
+  const mock = startMockLLMServer();
+  mock.failNext('batchEmbedContents', 429, 10);
+
+  try {
+    await assertRejects(
+      () => retryWithBackoff(() => postJSON('Mock', `${mock.url}${embedPath}`, {}, embedBody), 2, 1),
+      UpstreamError
+    );
+    assertEquals(mock.requestCount('batchEmbedContents'), 3);
+  } finally {
+    await mock.close();
+  }
+});
+
+Deno.test('postJSON reads Retry-After into the error', async () => {
+  const mock = startMockLLMServer();
+  mock.failNext('batchEmbedContents', 429, 1, { 'Retry-After': '2' });
+
+  try {
+    const error = await assertRejects(() => postJSON('Mock', `${mock.url}${embedPath}`, {}, embedBody), UpstreamError);
+    assertEquals(error.retryAfterMs, 2000);
+  } finally {
+    await mock.close();
+  }
+});
+
+Deno.test('postJSON times out slow upstream calls', async () => {
+  const mock = startMockLLMServer();
+  mock.delayNext('batchEmbedContents', 300);
+
+  try {
+    const error = await assertRejects(
+      () => postJSON('Mock', `${mock.url}${embedPath}`, {}, embedBody, 50),
+      UpstreamTimeoutError
+    );
+    assertEquals(error.status, 504);
+    assertEquals(error.code, 'UPSTREAM_TIMEOUT');
+  } finally {
+    // Let the delayed response finish before the server shuts down
+    await new Promise(resolve => setTimeout(resolve, 350));
+    await mock.close();
+  }
+});
+
+Deno.test('toErrorEnvelope exposes HttpErrors and hides unexpected errors', async () => {
+  assertEquals(toErrorEnvelope(badRequest('documentId is required')), {
+    error: { code: 'BAD_REQUEST', message: 'documentId is required' }
+  });
+
+  const response = errorResponse(new Error('relation "secret_table" does not exist'));
+  assertEquals(response.status, 500);
+
+  const body = await response.json();
+  assertEquals(body, { error: { code: 'INTERNAL_ERROR', message: 'An unexpected error occurred' } });
+  assert(!JSON.stringify(body).includes('secret_table'));
+});
+
+Deno.test('UpstreamError maps to a 502 response', async () => {
+  const response = errorResponse(new UpstreamError('Mock', 500, 'Mock API failed with status 500'));
+  assertInstanceOf(response, Response);
+  assertEquals(response.status, 502);
+  assertEquals((await response.json()).error.code, 'UPSTREAM_ERROR');
+});
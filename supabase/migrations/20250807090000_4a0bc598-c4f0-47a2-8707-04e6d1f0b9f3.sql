@@ -0,0 +1,91 @@
+-- Full-text search column for keyword matching on chunk content
+ALTER TABLE public.document_chunks
+  ADD COLUMN content_tsv tsvector
+  GENERATED ALWAYS AS (to_tsvector('english', content)) STORED;
+
+CREATE INDEX idx_document_chunks_content_tsv ON public.document_chunks USING gin (content_tsv);
+
+-- Hybrid search: fuse full-text ranking and vector ranking with reciprocal rank fusion (RRF)
+CREATE OR REPLACE FUNCTION public.hybrid_match_documents(
+  query_text text,
+  query_embedding vector(768),
+  match_threshold float DEFAULT 0.5,
+  match_count int DEFAULT 5,
+  user_id uuid DEFAULT NULL,
+  full_text_weight float DEFAULT 1.0,
+  semantic_weight float DEFAULT 1.0,
+  rrf_k int DEFAULT 50
+)
+RETURNS TABLE(
+  id uuid,
+  document_id uuid,
+  content text,
+  page_number int,
+  chunk_index int,
+  similarity float,
+  keyword_rank float,
+  rrf_score float,
+  documents jsonb
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  WITH user_chunks AS (
+    SELECT dc.id, dc.content_tsv, dc.embedding
+    FROM document_chunks dc
+    JOIN documents d ON dc.document_id = d.id
+    WHERE
+      (hybrid_match_documents.user_id IS NULL OR d.user_id = hybrid_match_documents.user_id)
+      AND d.status = 'completed'
+  ),
+  full_text AS (
+    SELECT
+      uc.id,
+      ts_rank_cd(uc.content_tsv, websearch_to_tsquery('english', query_text)) AS rank_score,
+      row_number() OVER (
+        ORDER BY ts_rank_cd(uc.content_tsv, websearch_to_tsquery('english', query_text)) DESC
+      ) AS rank_ix
+    FROM user_chunks uc
+    WHERE uc.content_tsv @@ websearch_to_tsquery('english', query_text)
+    ORDER BY rank_ix
+    LIMIT match_count * 4
+  ),
+  semantic AS (
+    SELECT
+      uc.id,
+      row_number() OVER (ORDER BY uc.embedding <=> query_embedding) AS rank_ix
+    FROM user_chunks uc
+    WHERE
+      uc.embedding IS NOT NULL
+      AND 1 - (uc.embedding <=> query_embedding) > match_threshold
+    ORDER BY rank_ix
+    LIMIT match_count * 4
+  )
+  SELECT
+    dc.id,
+    dc.document_id,
+    dc.content,
+    dc.page_number,
+    dc.chunk_index,
+    (1 - (dc.embedding <=> query_embedding))::float AS similarity,
+    coalesce(full_text.rank_score, 0.0)::float AS keyword_rank,
+    (
+      coalesce(1.0 / (rrf_k + full_text.rank_ix), 0.0) * full_text_weight +
+      coalesce(1.0 / (rrf_k + semantic.rank_ix), 0.0) * semantic_weight
+    )::float AS rrf_score,
+    jsonb_build_object(
+      'id', d.id,
+      'name', d.name,
+      'user_id', d.user_id
+    ) AS documents
+  FROM full_text
+  FULL OUTER JOIN semantic ON full_text.id = semantic.id
+  JOIN document_chunks dc ON dc.id = coalesce(full_text.id, semantic.id)
+  JOIN documents d ON dc.document_id = d.id
+  ORDER BY rrf_score DESC
+  LIMIT match_count;
+END;
+$$;
@@ -0,0 +1,106 @@
+-- Record the real page range of each chunk and its character offsets within those pages
+ALTER TABLE public.document_chunks
+  ADD COLUMN end_page_number INTEGER,
+  ADD COLUMN start_offset INTEGER,
+  ADD COLUMN end_offset INTEGER;
+
+COMMENT ON COLUMN public.document_chunks.page_number IS 'Page on which the chunk starts (1-based)';
+COMMENT ON COLUMN public.document_chunks.end_page_number IS 'Page on which the chunk ends (1-based)';
+COMMENT ON COLUMN public.document_chunks.start_offset IS 'Character offset of the chunk start within the normalized text of page_number';
+COMMENT ON COLUMN public.document_chunks.end_offset IS 'Exclusive character offset of the chunk end within the normalized text of end_page_number';
+
+-- Chunks ingested before page-aware extraction only know their estimated start page
+UPDATE public.document_chunks SET end_page_number = page_number WHERE end_page_number IS NULL;
+
+-- Return the page range and offsets from hybrid search (return type changes, so recreate)
+DROP FUNCTION IF EXISTS public.hybrid_match_documents(text, vector, float, int, uuid, float, float, int);
+
+CREATE FUNCTION public.hybrid_match_documents(
+  query_text text,
+  query_embedding vector(768),
+  match_threshold float DEFAULT 0.5,
+  match_count int DEFAULT 5,
+  user_id uuid DEFAULT NULL,
+  full_text_weight float DEFAULT 1.0,
+  semantic_weight float DEFAULT 1.0,
+  rrf_k int DEFAULT 50
+)
+RETURNS TABLE(
+  id uuid,
+  document_id uuid,
+  content text,
+  page_number int,
+  end_page_number int,
+  start_offset int,
+  end_offset int,
+  chunk_index int,
+  similarity float,
+  keyword_rank float,
+  rrf_score float,
+  documents jsonb
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  WITH user_chunks AS (
+    SELECT dc.id, dc.content_tsv, dc.embedding
+    FROM document_chunks dc
+    JOIN documents d ON dc.document_id = d.id
+    WHERE
+      (hybrid_match_documents.user_id IS NULL OR d.user_id = hybrid_match_documents.user_id)
+      AND d.status = 'completed'
+  ),
+  full_text AS (
+    SELECT
+      uc.id,
+      ts_rank_cd(uc.content_tsv, websearch_to_tsquery('english', query_text)) AS rank_score,
+      row_number() OVER (
+        ORDER BY ts_rank_cd(uc.content_tsv, websearch_to_tsquery('english', query_text)) DESC
+      ) AS rank_ix
+    FROM user_chunks uc
+    WHERE uc.content_tsv @@ websearch_to_tsquery('english', query_text)
+    ORDER BY rank_ix
+    LIMIT match_count * 4
+  ),
+  semantic AS (
+    SELECT
+      uc.id,
+      row_number() OVER (ORDER BY uc.embedding <=> query_embedding) AS rank_ix
+    FROM user_chunks uc
+    WHERE
+      uc.embedding IS NOT NULL
+      AND 1 - (uc.embedding <=> query_embedding) > match_threshold
+    ORDER BY rank_ix
+    LIMIT match_count * 4
+  )
+  SELECT
+    dc.id,
+    dc.document_id,
+    dc.content,
+    dc.page_number,
+    dc.end_page_number,
+    dc.start_offset,
+    dc.end_offset,
+    dc.chunk_index,
+    (1 - (dc.embedding <=> query_embedding))::float AS similarity,
+    coalesce(full_text.rank_score, 0.0)::float AS keyword_rank,
+    (
+      coalesce(1.0 / (rrf_k + full_text.rank_ix), 0.0) * full_text_weight +
+      coalesce(1.0 / (rrf_k + semantic.rank_ix), 0.0) * semantic_weight
+    )::float AS rrf_score,
+    jsonb_build_object(
+      'id', d.id,
+      'name', d.name,
+      'user_id', d.user_id
+    ) AS documents
+  FROM full_text
+  FULL OUTER JOIN semantic ON full_text.id = semantic.id
+  JOIN document_chunks dc ON dc.id = coalesce(full_text.id, semantic.id)
+  JOIN documents d ON dc.document_id = d.id
+  ORDER BY rrf_score DESC
+  LIMIT match_count;
+END;
+$$;
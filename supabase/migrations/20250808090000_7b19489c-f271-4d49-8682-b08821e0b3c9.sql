@@ -0,0 +1,116 @@
+-- Background ingestion queue: one row per ingestion run of a document
+CREATE TABLE public.ingestion_jobs (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  document_id UUID NOT NULL REFERENCES public.documents(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  status TEXT NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'running', 'completed', 'failed')),
+  stage TEXT NOT NULL DEFAULT 'download' CHECK (stage IN ('download', 'extract', 'chunk', 'embed', 'store')),
+  -- Per-stage progress, e.g. {"embed": {"done": 120, "total": 340}}
+  progress JSONB NOT NULL DEFAULT '{}'::jsonb,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 3,
+  last_error TEXT,
+  run_after TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  locked_at TIMESTAMP WITH TIME ZONE,
+  locked_by TEXT,
+  completed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable RLS for ingestion_jobs
+ALTER TABLE public.ingestion_jobs ENABLE ROW LEVEL SECURITY;
+
+-- Jobs are written by the edge functions only; users can follow their own jobs
+CREATE POLICY "Users can view their own ingestion jobs"
+ON public.ingestion_jobs
+FOR SELECT
+USING (auth.uid() = user_id);
+
+-- At most one active job per document
+CREATE UNIQUE INDEX idx_ingestion_jobs_active_document
+  ON public.ingestion_jobs(document_id)
+  WHERE status IN ('queued', 'running');
+
+CREATE INDEX idx_ingestion_jobs_status_run_after ON public.ingestion_jobs(status, run_after);
+CREATE INDEX idx_ingestion_jobs_user_id ON public.ingestion_jobs(user_id);
+
+CREATE TRIGGER update_ingestion_jobs_updated_at
+  BEFORE UPDATE ON public.ingestion_jobs
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Re-running ingestion must never duplicate chunks: drop existing duplicates, then enforce uniqueness.
+-- Chunks inserted together share a created_at, so ties keep the row with the highest id.
+DELETE FROM public.document_chunks dc
+USING public.document_chunks newer
+WHERE dc.document_id = newer.document_id
+  AND dc.chunk_index = newer.chunk_index
+  AND (dc.created_at < newer.created_at OR (dc.created_at = newer.created_at AND dc.id < newer.id));
+
+ALTER TABLE public.document_chunks
+  ADD CONSTRAINT document_chunks_document_id_chunk_index_key UNIQUE (document_id, chunk_index);
+
+-- Queue a document for ingestion, returning the already active job if there is one
+CREATE OR REPLACE FUNCTION public.enqueue_ingestion_job(target_document_id uuid)
+RETURNS public.ingestion_jobs
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  job public.ingestion_jobs;
+BEGIN
+  INSERT INTO ingestion_jobs (document_id, user_id)
+  SELECT d.id, d.user_id FROM documents d WHERE d.id = target_document_id
+  ON CONFLICT (document_id) WHERE status IN ('queued', 'running') DO NOTHING
+  RETURNING * INTO job;
+
+  IF job.id IS NULL THEN
+    SELECT * INTO job
+    FROM ingestion_jobs j
+    WHERE j.document_id = target_document_id AND j.status IN ('queued', 'running');
+  END IF;
+
+  IF job.id IS NULL THEN
+    RAISE EXCEPTION 'Document % not found', target_document_id;
+  END IF;
+
+  RETURN job;
+END;
+$$;
+
+-- Claim the next runnable job for a worker. Jobs whose lock has gone stale (worker died
+-- mid-run) are reclaimed so ingestion resumes from the last recorded stage.
+CREATE OR REPLACE FUNCTION public.claim_ingestion_job(
+  worker_id text,
+  lock_timeout interval DEFAULT interval '10 minutes'
+)
+RETURNS SETOF public.ingestion_jobs
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE ingestion_jobs j
+  SET
+    status = 'running',
+    attempts = j.attempts + 1,
+    locked_at = now(),
+    locked_by = worker_id
+  WHERE j.id = (
+    SELECT candidate.id
+    FROM ingestion_jobs candidate
+    WHERE
+      (candidate.status = 'queued' AND candidate.run_after <= now())
+      OR (candidate.status = 'running' AND candidate.locked_at < now() - lock_timeout)
+    ORDER BY candidate.run_after
+    LIMIT 1
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING j.*;
+END;
+$$;
+
+-- Queue operations are for the service role only
+REVOKE EXECUTE ON FUNCTION public.enqueue_ingestion_job(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.claim_ingestion_job(text, interval) FROM PUBLIC, anon, authenticated;
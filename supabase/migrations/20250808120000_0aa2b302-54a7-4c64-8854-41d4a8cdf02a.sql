@@ -0,0 +1,6 @@
+-- Stream document and ingestion progress changes to the client over Supabase Realtime
+ALTER TABLE public.documents REPLICA IDENTITY FULL;
+ALTER TABLE public.ingestion_jobs REPLICA IDENTITY FULL;
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.documents;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.ingestion_jobs;
@@ -0,0 +1,68 @@
+-- Structured failure reason for documents, mirrored by DOCUMENT_ERROR_CODES in _shared/document-status.ts
+ALTER TABLE public.documents
+  ADD COLUMN error_code TEXT CHECK (error_code IN (
+    'UPLOAD_FAILED',
+    'ENQUEUE_FAILED',
+    'DOWNLOAD_FAILED',
+    'UNSUPPORTED_TYPE',
+    'EXTRACTION_FAILED',
+    'NO_TEXT',
+    'EMBEDDING_FAILED',
+    'STORAGE_FAILED',
+    'PROCESSING_INTERRUPTED',
+    'UNKNOWN'
+  ));
+
+ALTER TABLE public.ingestion_jobs ADD COLUMN last_error_code TEXT;
+
+-- Documents that failed before error codes existed
+UPDATE public.documents
+SET error_code = 'UNKNOWN',
+    error_message = coalesce(error_message, 'Document processing failed')
+WHERE status = 'error';
+
+-- Documents left in "processing" by the old inline pipeline, which could not record failures
+UPDATE public.documents d
+SET status = 'error',
+    error_code = 'PROCESSING_INTERRUPTED',
+    error_message = 'Processing stopped before it completed. Reprocess the document to try again.'
+WHERE d.status = 'processing'
+  AND d.updated_at < now() - interval '1 hour'
+  AND NOT EXISTS (
+    SELECT 1 FROM public.ingestion_jobs j
+    WHERE j.document_id = d.id AND j.status IN ('queued', 'running')
+  );
+
+-- Every failed document carries a code and a message
+ALTER TABLE public.documents
+  ADD CONSTRAINT documents_error_details_check
+  CHECK (status <> 'error' OR (error_code IS NOT NULL AND error_message IS NOT NULL));
+
+-- Enforce the document status state machine (see DOCUMENT_STATUS_TRANSITIONS)
+CREATE OR REPLACE FUNCTION public.enforce_document_status_transition()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status IS DISTINCT FROM OLD.status AND NOT (
+    (OLD.status = 'uploading' AND NEW.status IN ('processing', 'error')) OR
+    (OLD.status = 'processing' AND NEW.status IN ('completed', 'error')) OR
+    (OLD.status = 'completed' AND NEW.status = 'processing') OR
+    (OLD.status = 'error' AND NEW.status = 'processing')
+  ) THEN
+    RAISE EXCEPTION 'Invalid document status transition from % to %', OLD.status, NEW.status
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  -- Error details only describe the current failure
+  IF NEW.status <> 'error' THEN
+    NEW.error_code := NULL;
+    NEW.error_message := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER documents_status_transition
+  BEFORE UPDATE OF status, error_code, error_message ON public.documents
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enforce_document_status_transition();
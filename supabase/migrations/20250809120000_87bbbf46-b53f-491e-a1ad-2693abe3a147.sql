@@ -0,0 +1,37 @@
+-- Per-job ingestion options, e.g. {"chunking": {"maxChunkSize": 1500, "overlap": 300}}
+ALTER TABLE public.ingestion_jobs ADD COLUMN options JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+-- Recreate enqueue_ingestion_job with job options (adding a parameter would create an overload)
+DROP FUNCTION IF EXISTS public.enqueue_ingestion_job(uuid);
+
+CREATE FUNCTION public.enqueue_ingestion_job(
+  target_document_id uuid,
+  job_options jsonb DEFAULT '{}'::jsonb
+)
+RETURNS public.ingestion_jobs
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  job public.ingestion_jobs;
+BEGIN
+  INSERT INTO ingestion_jobs (document_id, user_id, options)
+  SELECT d.id, d.user_id, coalesce(job_options, '{}'::jsonb) FROM documents d WHERE d.id = target_document_id
+  ON CONFLICT (document_id) WHERE status IN ('queued', 'running') DO NOTHING
+  RETURNING * INTO job;
+
+  IF job.id IS NULL THEN
+    SELECT * INTO job
+    FROM ingestion_jobs j
+    WHERE j.document_id = target_document_id AND j.status IN ('queued', 'running');
+  END IF;
+
+  IF job.id IS NULL THEN
+    RAISE EXCEPTION 'Document % not found', target_document_id;
+  END IF;
+
+  RETURN job;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.enqueue_ingestion_job(uuid, jsonb) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,159 @@
+-- Vector and hybrid search run as SECURITY DEFINER, so they must always be scoped to one user:
+-- a NULL user_id used to search every user's chunks, and any signed-in user could pass another's id.
+
+CREATE OR REPLACE FUNCTION public.match_documents(
+  query_embedding vector(768),
+  match_threshold float DEFAULT 0.5,
+  match_count int DEFAULT 5,
+  user_id uuid DEFAULT NULL
+)
+RETURNS TABLE(
+  id uuid,
+  document_id uuid,
+  content text,
+  page_number int,
+  chunk_index int,
+  similarity float,
+  documents jsonb
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF match_documents.user_id IS NULL THEN
+    RAISE EXCEPTION 'match_documents requires a user_id' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  -- Signed-in callers may only search their own documents; the service role has no auth.uid()
+  IF auth.uid() IS NOT NULL AND auth.uid() <> match_documents.user_id THEN
+    RAISE EXCEPTION 'Not allowed to search documents of another user' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    dc.id,
+    dc.document_id,
+    dc.content,
+    dc.page_number,
+    dc.chunk_index,
+    1 - (dc.embedding <=> query_embedding) AS similarity,
+    jsonb_build_object(
+      'id', d.id,
+      'name', d.name,
+      'user_id', d.user_id
+    ) AS documents
+  FROM document_chunks dc
+  JOIN documents d ON dc.document_id = d.id
+  WHERE 
+    d.user_id = match_documents.user_id
+    AND d.status = 'completed'
+    AND 1 - (dc.embedding <=> query_embedding) > match_threshold
+  ORDER BY dc.embedding <=> query_embedding
+  LIMIT match_count;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.hybrid_match_documents(
+  query_text text,
+  query_embedding vector(768),
+  match_threshold float DEFAULT 0.5,
+  match_count int DEFAULT 5,
+  user_id uuid DEFAULT NULL,
+  full_text_weight float DEFAULT 1.0,
+  semantic_weight float DEFAULT 1.0,
+  rrf_k int DEFAULT 50
+)
+RETURNS TABLE(
+  id uuid,
+  document_id uuid,
+  content text,
+  page_number int,
+  end_page_number int,
+  start_offset int,
+  end_offset int,
+  chunk_index int,
+  similarity float,
+  keyword_rank float,
+  rrf_score float,
+  documents jsonb
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF hybrid_match_documents.user_id IS NULL THEN
+    RAISE EXCEPTION 'hybrid_match_documents requires a user_id' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  IF auth.uid() IS NOT NULL AND auth.uid() <> hybrid_match_documents.user_id THEN
+    RAISE EXCEPTION 'Not allowed to search documents of another user' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN QUERY
+  WITH user_chunks AS (
+    SELECT dc.id, dc.content_tsv, dc.embedding
+    FROM document_chunks dc
+    JOIN documents d ON dc.document_id = d.id
+    WHERE
+      d.user_id = hybrid_match_documents.user_id
+      AND d.status = 'completed'
+  ),
+  full_text AS (
+    SELECT
+      uc.id,
+      ts_rank_cd(uc.content_tsv, websearch_to_tsquery('english', query_text)) AS rank_score,
+      row_number() OVER (
+        ORDER BY ts_rank_cd(uc.content_tsv, websearch_to_tsquery('english', query_text)) DESC
+      ) AS rank_ix
+    FROM user_chunks uc
+    WHERE uc.content_tsv @@ websearch_to_tsquery('english', query_text)
+    ORDER BY rank_ix
+    LIMIT match_count * 4
+  ),
+  semantic AS (
+    SELECT
+      uc.id,
+      row_number() OVER (ORDER BY uc.embedding <=> query_embedding) AS rank_ix
+    FROM user_chunks uc
+    WHERE
+      uc.embedding IS NOT NULL
+      AND 1 - (uc.embedding <=> query_embedding) > match_threshold
+    ORDER BY rank_ix
+    LIMIT match_count * 4
+  )
+  SELECT
+    dc.id,
+    dc.document_id,
+    dc.content,
+    dc.page_number,
+    dc.end_page_number,
+    dc.start_offset,
+    dc.end_offset,
+    dc.chunk_index,
+    (1 - (dc.embedding <=> query_embedding))::float AS similarity,
+    coalesce(full_text.rank_score, 0.0)::float AS keyword_rank,
+    (
+      coalesce(1.0 / (rrf_k + full_text.rank_ix), 0.0) * full_text_weight +
+      coalesce(1.0 / (rrf_k + semantic.rank_ix), 0.0) * semantic_weight
+    )::float AS rrf_score,
+    jsonb_build_object(
+      'id', d.id,
+      'name', d.name,
+      'user_id', d.user_id
+    ) AS documents
+  FROM full_text
+  FULL OUTER JOIN semantic ON full_text.id = semantic.id
+  JOIN document_chunks dc ON dc.id = coalesce(full_text.id, semantic.id)
+  JOIN documents d ON dc.document_id = d.id
+  ORDER BY rrf_score DESC
+  LIMIT match_count;
+END;
+$$;
+
+-- Anonymous callers have no user to scope the search to
+REVOKE EXECUTE ON FUNCTION public.match_documents(vector, float, int, uuid) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.hybrid_match_documents(text, vector, float, int, uuid, float, float, int) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.match_documents(vector, float, int, uuid) TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION public.hybrid_match_documents(text, vector, float, int, uuid, float, float, int) TO authenticated, service_role;
@@ -0,0 +1,60 @@
+-- Generation metadata for assistant messages
+ALTER TABLE public.messages
+  ADD COLUMN provider TEXT,
+  ADD COLUMN model TEXT,
+  ADD COLUMN latency_ms INTEGER,
+  ADD COLUMN chunk_ids UUID[] NOT NULL DEFAULT '{}';
+
+COMMENT ON COLUMN public.messages.provider IS 'AI provider that generated an assistant message, NULL when no generation ran';
+COMMENT ON COLUMN public.messages.latency_ms IS 'Milliseconds from receiving the question to the finished answer';
+COMMENT ON COLUMN public.messages.chunk_ids IS 'document_chunks retrieved as context for an assistant message';
+
+-- chat-with-documents is the only writer of messages
+DROP POLICY IF EXISTS "Users can insert their own messages" ON public.messages;
+
+-- Store a question and its answer together, so a conversation never holds half a turn
+CREATE OR REPLACE FUNCTION public.save_chat_turn(
+  target_conversation_id uuid,
+  target_user_id uuid,
+  question text,
+  answer text,
+  answer_sources jsonb DEFAULT NULL,
+  answer_provider text DEFAULT NULL,
+  answer_model text DEFAULT NULL,
+  answer_latency_ms int DEFAULT NULL,
+  answer_chunk_ids uuid[] DEFAULT '{}'
+)
+RETURNS SETOF public.messages
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  -- clock_timestamp() keeps the answer ordered after the question within one transaction
+  RETURN QUERY
+  INSERT INTO messages (conversation_id, user_id, role, content, created_at)
+  VALUES (target_conversation_id, target_user_id, 'user', question, clock_timestamp())
+  RETURNING *;
+
+  RETURN QUERY
+  INSERT INTO messages (
+    conversation_id, user_id, role, content, sources, provider, model, latency_ms, chunk_ids, created_at
+  )
+  VALUES (
+    target_conversation_id,
+    target_user_id,
+    'assistant',
+    answer,
+    answer_sources,
+    answer_provider,
+    answer_model,
+    answer_latency_ms,
+    coalesce(answer_chunk_ids, '{}'),
+    clock_timestamp()
+  )
+  RETURNING *;
+
+  UPDATE conversations SET updated_at = now() WHERE id = target_conversation_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.save_chat_turn(uuid, uuid, text, text, jsonb, text, text, int, uuid[]) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,25 @@
+-- Bring sources stored before numbered citations in line with ChatSource (_shared/chat-sources.ts):
+-- they were written with document_title and chunk_content, which the chat UI never read.
+UPDATE public.messages m
+SET sources = (
+  SELECT jsonb_agg(
+    jsonb_build_object(
+      'index', source.position,
+      'chunk_id', NULL,
+      'document_id', NULL,
+      'document_name', coalesce(source.value->>'document_name', source.value->>'document_title', 'Document'),
+      'snippet', coalesce(source.value->>'chunk_content', ''),
+      'page_number', coalesce((source.value->>'page_number')::int, 1),
+      'end_page_number', coalesce((source.value->>'end_page_number')::int, (source.value->>'page_number')::int, 1),
+      'start_offset', (source.value->>'start_offset')::int,
+      'end_offset', (source.value->>'end_offset')::int,
+      'similarity', NULL,
+      'cited', false
+    )
+    ORDER BY source.position
+  )
+  FROM jsonb_array_elements(m.sources) WITH ORDINALITY AS source(value, position)
+)
+WHERE jsonb_typeof(m.sources) = 'array'
+  AND jsonb_array_length(m.sources) > 0
+  AND NOT (m.sources->0 ? 'index');
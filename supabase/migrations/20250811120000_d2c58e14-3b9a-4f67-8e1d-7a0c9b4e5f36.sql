@@ -0,0 +1,198 @@
+-- Documents a conversation is limited to; a conversation without rows searches all of the user's documents
+CREATE TABLE public.conversation_documents (
+  conversation_id UUID NOT NULL REFERENCES public.conversations(id) ON DELETE CASCADE,
+  document_id UUID NOT NULL REFERENCES public.documents(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (conversation_id, document_id)
+);
+
+-- Enable RLS for conversation_documents
+ALTER TABLE public.conversation_documents ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own conversation documents"
+ON public.conversation_documents
+FOR SELECT
+USING (auth.uid() = user_id);
+
+-- Both the conversation and the document must belong to the user
+CREATE POLICY "Users can add their own documents to their own conversations"
+ON public.conversation_documents
+FOR INSERT
+WITH CHECK (
+  auth.uid() = user_id
+  AND EXISTS (SELECT 1 FROM public.conversations c WHERE c.id = conversation_id AND c.user_id = auth.uid())
+  AND EXISTS (SELECT 1 FROM public.documents d WHERE d.id = document_id AND d.user_id = auth.uid())
+);
+
+CREATE POLICY "Users can remove documents from their own conversations"
+ON public.conversation_documents
+FOR DELETE
+USING (auth.uid() = user_id);
+
+CREATE INDEX idx_conversation_documents_document_id ON public.conversation_documents(document_id);
+
+-- Add a document_ids filter to vector and hybrid search (a new parameter would create an overload)
+DROP FUNCTION IF EXISTS public.match_documents(vector, float, int, uuid);
+DROP FUNCTION IF EXISTS public.hybrid_match_documents(text, vector, float, int, uuid, float, float, int);
+
+CREATE FUNCTION public.match_documents(
+  query_embedding vector(768),
+  match_threshold float DEFAULT 0.5,
+  match_count int DEFAULT 5,
+  user_id uuid DEFAULT NULL,
+  document_ids uuid[] DEFAULT NULL
+)
+RETURNS TABLE(
+  id uuid,
+  document_id uuid,
+  content text,
+  page_number int,
+  chunk_index int,
+  similarity float,
+  documents jsonb
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF match_documents.user_id IS NULL THEN
+    RAISE EXCEPTION 'match_documents requires a user_id' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  -- Signed-in callers may only search their own documents; the service role has no auth.uid()
+  IF auth.uid() IS NOT NULL AND auth.uid() <> match_documents.user_id THEN
+    RAISE EXCEPTION 'Not allowed to search documents of another user' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    dc.id,
+    dc.document_id,
+    dc.content,
+    dc.page_number,
+    dc.chunk_index,
+    1 - (dc.embedding <=> query_embedding) AS similarity,
+    jsonb_build_object(
+      'id', d.id,
+      'name', d.name,
+      'user_id', d.user_id
+    ) AS documents
+  FROM document_chunks dc
+  JOIN documents d ON dc.document_id = d.id
+  WHERE 
+    d.user_id = match_documents.user_id
+    AND (match_documents.document_ids IS NULL OR d.id = ANY(match_documents.document_ids))
+    AND d.status = 'completed'
+    AND 1 - (dc.embedding <=> query_embedding) > match_threshold
+  ORDER BY dc.embedding <=> query_embedding
+  LIMIT match_count;
+END;
+$$;
+
+CREATE FUNCTION public.hybrid_match_documents(
+  query_text text,
+  query_embedding vector(768),
+  match_threshold float DEFAULT 0.5,
+  match_count int DEFAULT 5,
+  user_id uuid DEFAULT NULL,
+  full_text_weight float DEFAULT 1.0,
+  semantic_weight float DEFAULT 1.0,
+  rrf_k int DEFAULT 50,
+  document_ids uuid[] DEFAULT NULL
+)
+RETURNS TABLE(
+  id uuid,
+  document_id uuid,
+  content text,
+  page_number int,
+  end_page_number int,
+  start_offset int,
+  end_offset int,
+  chunk_index int,
+  similarity float,
+  keyword_rank float,
+  rrf_score float,
+  documents jsonb
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF hybrid_match_documents.user_id IS NULL THEN
+    RAISE EXCEPTION 'hybrid_match_documents requires a user_id' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  IF auth.uid() IS NOT NULL AND auth.uid() <> hybrid_match_documents.user_id THEN
+    RAISE EXCEPTION 'Not allowed to search documents of another user' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN QUERY
+  WITH user_chunks AS (
+    SELECT dc.id, dc.content_tsv, dc.embedding
+    FROM document_chunks dc
+    JOIN documents d ON dc.document_id = d.id
+    WHERE
+      d.user_id = hybrid_match_documents.user_id
+      AND (hybrid_match_documents.document_ids IS NULL OR d.id = ANY(hybrid_match_documents.document_ids))
+      AND d.status = 'completed'
+  ),
+  full_text AS (
+    SELECT
+      uc.id,
+      ts_rank_cd(uc.content_tsv, websearch_to_tsquery('english', query_text)) AS rank_score,
+      row_number() OVER (
+        ORDER BY ts_rank_cd(uc.content_tsv, websearch_to_tsquery('english', query_text)) DESC
+      ) AS rank_ix
+    FROM user_chunks uc
+    WHERE uc.content_tsv @@ websearch_to_tsquery('english', query_text)
+    ORDER BY rank_ix
+    LIMIT match_count * 4
+  ),
+  semantic AS (
+    SELECT
+      uc.id,
+      row_number() OVER (ORDER BY uc.embedding <=> query_embedding) AS rank_ix
+    FROM user_chunks uc
+    WHERE
+      uc.embedding IS NOT NULL
+      AND 1 - (uc.embedding <=> query_embedding) > match_threshold
+    ORDER BY rank_ix
+    LIMIT match_count * 4
+  )
+  SELECT
+    dc.id,
+    dc.document_id,
+    dc.content,
+    dc.page_number,
+    dc.end_page_number,
+    dc.start_offset,
+    dc.end_offset,
+    dc.chunk_index,
+    (1 - (dc.embedding <=> query_embedding))::float AS similarity,
+    coalesce(full_text.rank_score, 0.0)::float AS keyword_rank,
+    (
+      coalesce(1.0 / (rrf_k + full_text.rank_ix), 0.0) * full_text_weight +
+      coalesce(1.0 / (rrf_k + semantic.rank_ix), 0.0) * semantic_weight
+    )::float AS rrf_score,
+    jsonb_build_object(
+      'id', d.id,
+      'name', d.name,
+      'user_id', d.user_id
+    ) AS documents
+  FROM full_text
+  FULL OUTER JOIN semantic ON full_text.id = semantic.id
+  JOIN document_chunks dc ON dc.id = coalesce(full_text.id, semantic.id)
+  JOIN documents d ON dc.document_id = d.id
+  ORDER BY rrf_score DESC
+  LIMIT match_count;
+END;
+$$;
+
+-- Anonymous callers have no user to scope the search to
+REVOKE EXECUTE ON FUNCTION public.match_documents(vector, float, int, uuid, uuid[]) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.hybrid_match_documents(text, vector, float, int, uuid, float, float, int, uuid[]) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.match_documents(vector, float, int, uuid, uuid[]) TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION public.hybrid_match_documents(text, vector, float, int, uuid, float, float, int, uuid[]) TO authenticated, service_role;
@@ -0,0 +1,371 @@
+-- Track which embedding model produced each chunk so the corpus can move between models
+-- (ids as in _shared/embeddings.ts, e.g. 'gemini/embedding-001')
+
+-- The ivfflat index is tied to vector(768); drop it so the column can hold any dimension.
+-- It is replaced by one index per embedding dimension below.
+DROP INDEX IF EXISTS public.document_chunks_embedding_idx;
+
+ALTER TABLE public.document_chunks
+  ALTER COLUMN embedding TYPE vector,
+  ADD COLUMN embedding_model TEXT,
+  ADD COLUMN embedding_dimensions INTEGER,
+  -- Written by a re-embedding job and promoted once the whole document is done,
+  -- so the current embeddings keep serving searches in the meantime
+  ADD COLUMN pending_embedding vector,
+  ADD COLUMN pending_embedding_model TEXT;
+
+-- Model of the document's current chunk embeddings
+ALTER TABLE public.documents ADD COLUMN embedding_model TEXT;
+
+-- Everything embedded so far came from Gemini embedding-001
+UPDATE public.document_chunks
+SET embedding_model = 'gemini/embedding-001',
+    embedding_dimensions = vector_dims(embedding)
+WHERE embedding IS NOT NULL;
+
+UPDATE public.documents d
+SET embedding_model = 'gemini/embedding-001'
+WHERE EXISTS (
+  SELECT 1 FROM public.document_chunks dc
+  WHERE dc.document_id = d.id AND dc.embedding IS NOT NULL
+);
+
+ALTER TABLE public.document_chunks
+  ADD CONSTRAINT document_chunks_embedding_model_check
+  CHECK (embedding IS NULL OR (embedding_model IS NOT NULL AND embedding_dimensions = vector_dims(embedding)));
+
+CREATE INDEX idx_document_chunks_embedding_model ON public.document_chunks(document_id, embedding_model);
+
+-- Vector indexes need a fixed dimension, so each one covers the chunks of a single dimension through a
+-- cast; nearest_chunks casts the same way to use them. The column is wider than the 2,000 dimensions
+-- a vector index supports for text-embedding-3-large, which is indexed as halfvec instead.
+CREATE INDEX document_chunks_embedding_768_idx ON public.document_chunks
+  USING hnsw ((embedding::vector(768)) vector_cosine_ops)
+  WHERE embedding_dimensions = 768;
+CREATE INDEX document_chunks_embedding_1536_idx ON public.document_chunks
+  USING hnsw ((embedding::vector(1536)) vector_cosine_ops)
+  WHERE embedding_dimensions = 1536;
+CREATE INDEX document_chunks_embedding_3072_idx ON public.document_chunks
+  USING hnsw ((embedding::halfvec(3072)) halfvec_cosine_ops)
+  WHERE embedding_dimensions = 3072;
+
+-- Jobs either ingest a document or move its existing chunks to another embedding model
+ALTER TABLE public.ingestion_jobs
+  ADD COLUMN kind TEXT NOT NULL DEFAULT 'ingest' CHECK (kind IN ('ingest', 'reembed'));
+
+-- Queue re-embedding of a user's completed documents that are not on the target model yet.
+-- Documents with an active job are skipped.
+CREATE OR REPLACE FUNCTION public.enqueue_reembed_jobs(target_user_id uuid, target_model text)
+RETURNS SETOF public.ingestion_jobs
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  INSERT INTO ingestion_jobs (document_id, user_id, kind, stage, options)
+  SELECT d.id, d.user_id, 'reembed', 'embed', jsonb_build_object('embeddingModel', target_model)
+  FROM documents d
+  WHERE d.user_id = target_user_id
+    AND d.status = 'completed'
+    AND d.embedding_model IS DISTINCT FROM target_model
+  ON CONFLICT (document_id) WHERE status IN ('queued', 'running') DO NOTHING
+  RETURNING *;
+END;
+$$;
+
+-- Swap a document's pending embeddings in as its current ones in a single transaction
+CREATE OR REPLACE FUNCTION public.promote_pending_embeddings(target_document_id uuid, target_model text)
+RETURNS integer
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  promoted integer;
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM document_chunks dc
+    WHERE dc.document_id = target_document_id
+      AND dc.embedding_model IS DISTINCT FROM target_model
+      AND dc.pending_embedding_model IS DISTINCT FROM target_model
+  ) THEN
+    RAISE EXCEPTION 'Document % still has chunks without a % embedding', target_document_id, target_model;
+  END IF;
+
+  UPDATE document_chunks dc
+  SET
+    embedding = dc.pending_embedding,
+    embedding_model = dc.pending_embedding_model,
+    embedding_dimensions = vector_dims(dc.pending_embedding),
+    pending_embedding = NULL,
+    pending_embedding_model = NULL
+  WHERE dc.document_id = target_document_id
+    AND dc.pending_embedding_model = target_model;
+
+  GET DIAGNOSTICS promoted = ROW_COUNT;
+
+  UPDATE documents SET embedding_model = target_model WHERE id = target_document_id;
+
+  RETURN promoted;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.enqueue_reembed_jobs(uuid, text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.promote_pending_embeddings(uuid, text) FROM PUBLIC, anon, authenticated;
+
+-- Chunks of a user's completed documents embedded with `embedding_model`, nearest to the query first.
+-- The HNSW indexes span every user, and their scans return at most hnsw.ef_search rows before the
+-- user, document and status conditions are applied. So a user with few chunks (up to
+-- exact_scan_max_chunks) is compared exactly. Larger corpora go through the index for the query's
+-- dimension, with ef_search raised to match_count and, on pgvector 0.8 or later, iterative scans that
+-- keep reading the index until enough rows pass the conditions.
+CREATE FUNCTION public.nearest_chunks(
+  query_embedding vector,
+  embedding_model text,
+  user_id uuid,
+  document_ids uuid[],
+  match_count int
+)
+RETURNS TABLE(id uuid, distance float)
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  exact_scan_max_chunks CONSTANT int := 10000;
+  dimensions int := vector_dims(query_embedding);
+  indexed_type text := format('%s(%s)', CASE WHEN dimensions > 2000 THEN 'halfvec' ELSE 'vector' END, dimensions);
+  candidate_count bigint;
+  distance_expression text;
+BEGIN
+  IF query_embedding IS NULL OR nearest_chunks.embedding_model IS NULL THEN
+    RETURN;
+  END IF;
+
+  SELECT count(*) INTO candidate_count
+  FROM document_chunks dc
+  JOIN documents d ON dc.document_id = d.id
+  WHERE d.user_id = nearest_chunks.user_id
+    AND (nearest_chunks.document_ids IS NULL OR d.id = ANY(nearest_chunks.document_ids))
+    AND d.status = 'completed'
+    AND dc.embedding_model = nearest_chunks.embedding_model;
+
+  IF candidate_count <= exact_scan_max_chunks THEN
+    -- Without the cast the expression does not match an index, so every candidate is compared
+    distance_expression := 'dc.embedding <=> $1';
+  ELSE
+    -- The cast to the dimension's type matches that dimension's partial index
+    distance_expression := format('dc.embedding::%1$s <=> $1::%1$s', indexed_type);
+    -- ef_search is capped at 1000 by pgvector
+    PERFORM set_config('hnsw.ef_search', least(greatest(match_count, 40), 1000)::text, true);
+    IF (SELECT string_to_array(extversion, '.')::int[] >= ARRAY[0, 8] FROM pg_extension WHERE extname = 'vector') THEN
+      PERFORM set_config('hnsw.iterative_scan', 'relaxed_order', true);
+    END IF;
+  END IF;
+
+  -- relaxed_order may return rows slightly out of order, so they are sorted again
+  RETURN QUERY EXECUTE format(
+    'SELECT nearest.id, nearest.distance
+     FROM (
+       SELECT dc.id, (%1$s)::float AS distance
+       FROM document_chunks dc
+       JOIN documents d ON dc.document_id = d.id
+       WHERE dc.embedding_dimensions = %2$s
+         AND dc.embedding_model = $2
+         AND d.user_id = $3
+         AND ($4 IS NULL OR d.id = ANY($4))
+         AND d.status = ''completed''
+       ORDER BY %1$s
+       LIMIT $5
+     ) nearest
+     ORDER BY nearest.distance',
+    distance_expression,
+    dimensions
+  )
+  USING query_embedding, nearest_chunks.embedding_model, nearest_chunks.user_id, nearest_chunks.document_ids, match_count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.nearest_chunks(vector, text, uuid, uuid[], int) FROM PUBLIC, anon, authenticated;
+
+-- Searches take the query's embedding model and only compare it with chunks from that model,
+-- which also keeps vectors of different dimensions apart.
+DROP FUNCTION IF EXISTS public.match_documents(vector, float, int, uuid, uuid[]);
+DROP FUNCTION IF EXISTS public.hybrid_match_documents(text, vector, float, int, uuid, float, float, int, uuid[]);
+
+CREATE FUNCTION public.match_documents(
+  query_embedding vector,
+  match_threshold float DEFAULT 0.5,
+  match_count int DEFAULT 5,
+  user_id uuid DEFAULT NULL,
+  document_ids uuid[] DEFAULT NULL,
+  embedding_model text DEFAULT NULL
+)
+RETURNS TABLE(
+  id uuid,
+  document_id uuid,
+  content text,
+  page_number int,
+  chunk_index int,
+  similarity float,
+  documents jsonb
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF match_documents.user_id IS NULL THEN
+    RAISE EXCEPTION 'match_documents requires a user_id' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  IF match_documents.embedding_model IS NULL THEN
+    RAISE EXCEPTION 'match_documents requires an embedding_model' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  -- Signed-in callers may only search their own documents; the service role has no auth.uid()
+  IF auth.uid() IS NOT NULL AND auth.uid() <> match_documents.user_id THEN
+    RAISE EXCEPTION 'Not allowed to search documents of another user' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    dc.id,
+    dc.document_id,
+    dc.content,
+    dc.page_number,
+    dc.chunk_index,
+    (1 - nc.distance)::float AS similarity,
+    jsonb_build_object(
+      'id', d.id,
+      'name', d.name,
+      'user_id', d.user_id
+    ) AS documents
+  FROM nearest_chunks(
+    query_embedding,
+    match_documents.embedding_model,
+    match_documents.user_id,
+    match_documents.document_ids,
+    match_count
+  ) nc
+  JOIN document_chunks dc ON dc.id = nc.id
+  JOIN documents d ON dc.document_id = d.id
+  WHERE 1 - nc.distance > match_threshold
+  ORDER BY nc.distance;
+END;
+$$;
+
+CREATE FUNCTION public.hybrid_match_documents(
+  query_text text,
+  query_embedding vector,
+  match_threshold float DEFAULT 0.5,
+  match_count int DEFAULT 5,
+  user_id uuid DEFAULT NULL,
+  full_text_weight float DEFAULT 1.0,
+  semantic_weight float DEFAULT 1.0,
+  rrf_k int DEFAULT 50,
+  document_ids uuid[] DEFAULT NULL,
+  embedding_model text DEFAULT NULL
+)
+RETURNS TABLE(
+  id uuid,
+  document_id uuid,
+  content text,
+  page_number int,
+  end_page_number int,
+  start_offset int,
+  end_offset int,
+  chunk_index int,
+  similarity float,
+  keyword_rank float,
+  rrf_score float,
+  documents jsonb
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF hybrid_match_documents.user_id IS NULL THEN
+    RAISE EXCEPTION 'hybrid_match_documents requires a user_id' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  IF auth.uid() IS NOT NULL AND auth.uid() <> hybrid_match_documents.user_id THEN
+    RAISE EXCEPTION 'Not allowed to search documents of another user' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  -- Without an embedding (or model) only the keyword ranking contributes
+  RETURN QUERY
+  WITH user_chunks AS MATERIALIZED (
+    SELECT
+      dc.id,
+      dc.content_tsv
+    FROM document_chunks dc
+    JOIN documents d ON dc.document_id = d.id
+    WHERE
+      d.user_id = hybrid_match_documents.user_id
+      AND (hybrid_match_documents.document_ids IS NULL OR d.id = ANY(hybrid_match_documents.document_ids))
+      AND d.status = 'completed'
+  ),
+  full_text AS (
+    SELECT
+      uc.id,
+      ts_rank_cd(uc.content_tsv, websearch_to_tsquery('english', query_text)) AS rank_score,
+      row_number() OVER (
+        ORDER BY ts_rank_cd(uc.content_tsv, websearch_to_tsquery('english', query_text)) DESC
+      ) AS rank_ix
+    FROM user_chunks uc
+    WHERE uc.content_tsv @@ websearch_to_tsquery('english', query_text)
+    ORDER BY rank_ix
+    LIMIT match_count * 4
+  ),
+  semantic AS (
+    SELECT
+      nc.id,
+      row_number() OVER (ORDER BY nc.distance) AS rank_ix
+    FROM nearest_chunks(
+      query_embedding,
+      hybrid_match_documents.embedding_model,
+      hybrid_match_documents.user_id,
+      hybrid_match_documents.document_ids,
+      match_count * 4
+    ) nc
+    WHERE 1 - nc.distance > match_threshold
+  )
+  SELECT
+    dc.id,
+    dc.document_id,
+    dc.content,
+    dc.page_number,
+    dc.end_page_number,
+    dc.start_offset,
+    dc.end_offset,
+    dc.chunk_index,
+    -- Keyword matches outside the semantic candidates still report their similarity
+    CASE
+      WHEN dc.embedding_model = hybrid_match_documents.embedding_model
+        AND dc.embedding_dimensions = vector_dims(query_embedding)
+      THEN (1 - (dc.embedding <=> query_embedding))::float
+    END AS similarity,
+    coalesce(full_text.rank_score, 0.0)::float AS keyword_rank,
+    (
+      coalesce(1.0 / (rrf_k + full_text.rank_ix), 0.0) * full_text_weight +
+      coalesce(1.0 / (rrf_k + semantic.rank_ix), 0.0) * semantic_weight
+    )::float AS rrf_score,
+    jsonb_build_object(
+      'id', d.id,
+      'name', d.name,
+      'user_id', d.user_id
+    ) AS documents
+  FROM full_text
+  FULL OUTER JOIN semantic ON full_text.id = semantic.id
+  JOIN document_chunks dc ON dc.id = coalesce(full_text.id, semantic.id)
+  JOIN documents d ON dc.document_id = d.id
+  ORDER BY rrf_score DESC
+  LIMIT match_count;
+END;
+$$;
+
+-- Anonymous callers have no user to scope the search to
+REVOKE EXECUTE ON FUNCTION public.match_documents(vector, float, int, uuid, uuid[], text) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.hybrid_match_documents(text, vector, float, int, uuid, float, float, int, uuid[], text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.match_documents(vector, float, int, uuid, uuid[], text) TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION public.hybrid_match_documents(text, vector, float, int, uuid, float, float, int, uuid[], text) TO authenticated, service_role;
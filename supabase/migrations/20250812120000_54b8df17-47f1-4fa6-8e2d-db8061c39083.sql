@@ -0,0 +1,122 @@
+-- Structure-aware chunking: each chunk records details of where it sits in the document,
+-- currently the heading path of its section, e.g. {"heading_path": "3 Pricing > 3.2 Discounts"}
+ALTER TABLE public.document_chunks ADD COLUMN metadata JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+-- Searches return the metadata so answers can cite a chunk's section
+DROP FUNCTION IF EXISTS public.hybrid_match_documents(text, vector, float, int, uuid, float, float, int, uuid[], text);
+
+CREATE FUNCTION public.hybrid_match_documents(
+  query_text text,
+  query_embedding vector,
+  match_threshold float DEFAULT 0.5,
+  match_count int DEFAULT 5,
+  user_id uuid DEFAULT NULL,
+  full_text_weight float DEFAULT 1.0,
+  semantic_weight float DEFAULT 1.0,
+  rrf_k int DEFAULT 50,
+  document_ids uuid[] DEFAULT NULL,
+  embedding_model text DEFAULT NULL
+)
+RETURNS TABLE(
+  id uuid,
+  document_id uuid,
+  content text,
+  page_number int,
+  end_page_number int,
+  start_offset int,
+  end_offset int,
+  chunk_index int,
+  metadata jsonb,
+  similarity float,
+  keyword_rank float,
+  rrf_score float,
+  documents jsonb
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF hybrid_match_documents.user_id IS NULL THEN
+    RAISE EXCEPTION 'hybrid_match_documents requires a user_id' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  IF auth.uid() IS NOT NULL AND auth.uid() <> hybrid_match_documents.user_id THEN
+    RAISE EXCEPTION 'Not allowed to search documents of another user' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  -- Without an embedding (or model) only the keyword ranking contributes
+  RETURN QUERY
+  WITH user_chunks AS MATERIALIZED (
+    SELECT
+      dc.id,
+      dc.content_tsv
+    FROM document_chunks dc
+    JOIN documents d ON dc.document_id = d.id
+    WHERE
+      d.user_id = hybrid_match_documents.user_id
+      AND (hybrid_match_documents.document_ids IS NULL OR d.id = ANY(hybrid_match_documents.document_ids))
+      AND d.status = 'completed'
+  ),
+  full_text AS (
+    SELECT
+      uc.id,
+      ts_rank_cd(uc.content_tsv, websearch_to_tsquery('english', query_text)) AS rank_score,
+      row_number() OVER (
+        ORDER BY ts_rank_cd(uc.content_tsv, websearch_to_tsquery('english', query_text)) DESC
+      ) AS rank_ix
+    FROM user_chunks uc
+    WHERE uc.content_tsv @@ websearch_to_tsquery('english', query_text)
+    ORDER BY rank_ix
+    LIMIT match_count * 4
+  ),
+  semantic AS (
+    SELECT
+      nc.id,
+      row_number() OVER (ORDER BY nc.distance) AS rank_ix
+    FROM nearest_chunks(
+      query_embedding,
+      hybrid_match_documents.embedding_model,
+      hybrid_match_documents.user_id,
+      hybrid_match_documents.document_ids,
+      match_count * 4
+    ) nc
+    WHERE 1 - nc.distance > match_threshold
+  )
+  SELECT
+    dc.id,
+    dc.document_id,
+    dc.content,
+    dc.page_number,
+    dc.end_page_number,
+    dc.start_offset,
+    dc.end_offset,
+    dc.chunk_index,
+    dc.metadata,
+    -- Keyword matches outside the semantic candidates still report their similarity
+    CASE
+      WHEN dc.embedding_model = hybrid_match_documents.embedding_model
+        AND dc.embedding_dimensions = vector_dims(query_embedding)
+      THEN (1 - (dc.embedding <=> query_embedding))::float
+    END AS similarity,
+    coalesce(full_text.rank_score, 0.0)::float AS keyword_rank,
+    (
+      coalesce(1.0 / (rrf_k + full_text.rank_ix), 0.0) * full_text_weight +
+      coalesce(1.0 / (rrf_k + semantic.rank_ix), 0.0) * semantic_weight
+    )::float AS rrf_score,
+    jsonb_build_object(
+      'id', d.id,
+      'name', d.name,
+      'user_id', d.user_id
+    ) AS documents
+  FROM full_text
+  FULL OUTER JOIN semantic ON full_text.id = semantic.id
+  JOIN document_chunks dc ON dc.id = coalesce(full_text.id, semantic.id)
+  JOIN documents d ON dc.document_id = d.id
+  ORDER BY rrf_score DESC
+  LIMIT match_count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.hybrid_match_documents(text, vector, float, int, uuid, float, float, int, uuid[], text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.hybrid_match_documents(text, vector, float, int, uuid, float, float, int, uuid[], text) TO authenticated, service_role;
@@ -0,0 +1,19 @@
+-- Evaluation runs of the retrieval and answer pipeline (supabase/functions/evals): one row per run of a
+-- fixture set, so metrics can be compared with earlier runs
+CREATE TABLE public.eval_runs (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  fixture TEXT NOT NULL,
+  label TEXT,
+  -- How the run was made, e.g. {"mock": true, "k": [1, 3, 5, 10], "judge": ["Gemini"]}
+  config JSONB NOT NULL DEFAULT '{}'::jsonb,
+  -- Averages over the fixture's questions, e.g. {"recall@5": 0.8, "mrr": 0.65, ...}
+  metrics JSONB NOT NULL,
+  -- Per-question scores, retrieved chunks and answers
+  results JSONB NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Written and read by the eval runner with the service role only
+ALTER TABLE public.eval_runs ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX idx_eval_runs_fixture_created_at ON public.eval_runs(fixture, created_at DESC);
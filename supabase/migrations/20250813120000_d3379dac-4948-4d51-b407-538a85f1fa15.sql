@@ -0,0 +1,52 @@
+-- Reprocessing checks for an active job, queues the new one and resets the document in one transaction,
+-- so a worker never sees the document reset underneath its job and a failed enqueue leaves nothing
+-- half done. The old chunks stay until the worker re-chunks the document, which replaces them.
+CREATE OR REPLACE FUNCTION public.reprocess_document(
+  target_document_id uuid,
+  target_user_id uuid,
+  job_options jsonb DEFAULT '{}'::jsonb
+)
+RETURNS public.ingestion_jobs
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  target_document public.documents;
+  job public.ingestion_jobs;
+  active_job public.ingestion_jobs;
+BEGIN
+  SELECT * INTO target_document
+  FROM documents d
+  WHERE d.id = target_document_id AND d.user_id = target_user_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Document % not found', target_document_id USING ERRCODE = 'no_data_found';
+  END IF;
+
+  -- The unique index on active jobs decides whether the document is already being processed
+  INSERT INTO ingestion_jobs (document_id, user_id, options)
+  VALUES (target_document.id, target_document.user_id, coalesce(job_options, '{}'::jsonb))
+  ON CONFLICT (document_id) WHERE status IN ('queued', 'running') DO NOTHING
+  RETURNING * INTO job;
+
+  IF job.id IS NULL THEN
+    SELECT * INTO active_job
+    FROM ingestion_jobs j
+    WHERE j.document_id = target_document.id AND j.status IN ('queued', 'running');
+
+    RAISE EXCEPTION 'Document % is already being processed', target_document.id
+      USING ERRCODE = 'unique_violation',
+            DETAIL = json_build_object('jobId', active_job.id, 'status', active_job.status)::text;
+  END IF;
+
+  -- The status trigger clears the previous error details
+  IF target_document.status <> 'processing' THEN
+    UPDATE documents SET status = 'processing', total_chunks = 0 WHERE id = target_document.id;
+  END IF;
+
+  RETURN job;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.reprocess_document(uuid, uuid, jsonb) FROM PUBLIC, anon, authenticated;